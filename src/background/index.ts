@@ -4,17 +4,30 @@
  * This is the main background script for the HyperTabs extension.
  * It handles:
  * - Keyboard command listeners
+ * - The harpoon-mark slot picker (content script overlay, or a picker
+ *   window on pages scripts can't run on)
  * - Context menu creation and handling
  * - Message passing between popup and background
  * - Tab event listeners for state synchronization
+ * - The in-memory tab cache (see lib/tabCache.ts)
  */
 
 import {
   markToSlot,
   markToNextAvailable,
   jumpToSlot,
+  jumpToNextSlot,
+  jumpToPrevSlot,
+  jumpToLastSlot,
   removeFromSlot,
   getHarpoonState,
+  getActiveList,
+  findSlotForUrl,
+  followTabNavigation,
+  commitSlotEdits,
+  switchList,
+  switchToNextList,
+  createList,
   syncWithTabs as syncHarpoonWithTabs,
 } from '../lib/harpoon';
 import {
@@ -23,27 +36,79 @@ import {
   switchWorkspace,
   switchToNextWorkspace,
   switchToPrevWorkspace,
+  setWorkspaceHarpoonList,
+  assignTabsToWorkspace,
   syncWithTabs as syncWorkspacesWithTabs,
 } from '../lib/workspaces';
 import { switchToTab, createTab } from '../lib/tabs';
-import type { SearchResult } from '../lib/types';
+import { getMatchModeLabel } from '../lib/urlMatch';
+import {
+  startSlotHealthTracking,
+  getSlotHealthLabel,
+  followSlotRedirects,
+  clearDeadSlots,
+} from '../lib/slotHealth';
+import { showSlotPicker } from '../content/slotPicker';
+import { showLeaderHint } from '../content/leaderKey';
+import { startTabCache, whenTabCacheReady, getTabSnapshot } from '../lib/tabCache';
+import { startMruTracking, getRecentTabIds, jumpToPreviousTab } from '../lib/mru';
+import { startFrecencyTracking, recordVisit, resetFrecency } from '../lib/frecency';
+import {
+  closeTabs,
+  reloadTabs,
+  setTabsPinned,
+  setTabsMuted,
+  discardTabs,
+  moveTabsToWindow,
+  groupTabsTogether,
+  bookmarkPages,
+  toMarkdownList,
+} from '../lib/bulkActions';
+import { runMigrations } from '../lib/storage';
+import { syncNow, isSyncPayloadChange } from '../lib/sync';
+import { takeSnapshot, SNAPSHOT_ALARM_NAME, SNAPSHOT_INTERVAL_MINUTES } from '../lib/snapshots';
+import { undo, redo } from '../lib/history';
+import type { BulkPage, HarpoonState, SearchResult, SlotEdit, SlotPickerData } from '../lib/types';
 
 // =============================================================================
 // INITIALIZATION
 // =============================================================================
 
+// Build the tab model and start tracking tab events. Runs on every service
+// worker start, since the model only lives in memory.
+startTabCache();
+
+// Track tab access order (kept in session storage across worker restarts)
+startMruTracking();
+
+// Score pages by how often and how recently they're used, for Telescope
+startFrecencyTracking();
+
+// Flag harpoon slots whose pages fail to load or redirect
+startSlotHealthTracking();
+
 /**
  * Initialize the extension when installed or updated
  */
 chrome.runtime.onInstalled.addListener(async (details) => {
   console.log('HyperTabs: Extension installed/updated', details.reason);
   
+  // Upgrade stored data before anything reads it. On a fresh install this
+  // just stamps the current schema version.
+  if (details.reason === 'update' || details.reason === 'install') {
+    await runMigrations();
+  }
+  
   // Create context menus
   await createContextMenus();
   
   // Sync state with current tabs
+  await whenTabCacheReady();
   await syncHarpoonWithTabs();
   await syncWorkspacesWithTabs();
+  
+  // Pull in changes made on other devices
+  scheduleSync();
 });
 
 /**
@@ -53,14 +118,107 @@ chrome.runtime.onStartup.addListener(async () => {
   console.log('HyperTabs: Browser started');
   
   // Sync state with current tabs
+  await whenTabCacheReady();
   await syncHarpoonWithTabs();
   await syncWorkspacesWithTabs();
+  
+  // Pull in changes made on other devices
+  scheduleSync();
 });
 
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/**
+ * Makes sure the periodic snapshot alarm exists
+ * Alarms survive service worker restarts, so this only creates it once
+ */
+async function ensureSnapshotAlarm(): Promise<void> {
+  const existing = await chrome.alarms.get(SNAPSHOT_ALARM_NAME);
+  if (!existing) {
+    await chrome.alarms.create(SNAPSHOT_ALARM_NAME, {
+      periodInMinutes: SNAPSHOT_INTERVAL_MINUTES,
+    });
+  }
+}
+
+/**
+ * Take interval snapshots when the alarm fires
+ */
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === SNAPSHOT_ALARM_NAME) {
+    await takeSnapshot('interval');
+  }
+});
+
+ensureSnapshotAlarm();
+
+// =============================================================================
+// CROSS-DEVICE SYNC
+// =============================================================================
+
+/**
+ * Delay before a sync round, so bursts of local changes are pushed
+ * together and stay well within sync's write-rate quotas
+ */
+const SYNC_DEBOUNCE_MS = 2000;
+
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Schedules a (debounced) sync round
+ * syncNow() itself checks whether sync is enabled
+ */
+function scheduleSync(): void {
+  clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncNow().catch((error) => console.error('HyperTabs: Sync failed:', error));
+  }, SYNC_DEBOUNCE_MS);
+}
+
 // =============================================================================
 // CONTEXT MENUS
 // =============================================================================
 
+/**
+ * Title of the "Add to Harpoon" submenu
+ * Names the active list once there is more than one
+ */
+function getHarpoonMenuTitle(state: HarpoonState): string {
+  return state.lists.length > 1
+    ? `Add to Harpoon (${getActiveList(state).name})`
+    : 'Add to Harpoon';
+}
+
+/**
+ * Title of a slot's context menu item
+ * Names the slot's match mode unless it is the default exact match, and
+ * flags a slot whose page failed to load or redirected
+ */
+function getSlotMenuTitle(state: HarpoonState, slotId: number): string {
+  const slot = getActiveList(state).slots[slotId - 1];
+  if (!slot) return `Slot ${slotId}: (empty)`;
+  
+  let title = `Slot ${slotId}: ${slot.title.substring(0, 20)}${slot.title.length > 20 ? '...' : ''}`;
+  if ((slot.matchMode ?? 'exact') !== 'exact') {
+    title = `${title} [${getMatchModeLabel(slot)}]`;
+  }
+  return slot.health ? `⚠ ${title} - ${getSlotHealthLabel(slot.health)}` : title;
+}
+
+/**
+ * Whether the health actions apply to the active list: some slot
+ * redirected, some slot is dead
+ */
+function getHealthMenuVisibility(state: HarpoonState): { redirected: boolean; dead: boolean } {
+  const slots = getActiveList(state).slots;
+  return {
+    redirected: slots.some((slot) => slot?.health?.status === 'redirected'),
+    dead: slots.some((slot) => slot?.health?.status === 'unreachable'),
+  };
+}
+
 /**
  * Creates the context menu items for the extension
  */
@@ -75,26 +233,22 @@ async function createContextMenus(): Promise<void> {
     contexts: ['page', 'action'] as const,
   });
   
+  const state = await getHarpoonState();
+  
   // Add to Harpoon submenu
   chrome.contextMenus.create({
     id: 'harpoon-add',
     parentId: 'hypertabs-parent',
-    title: 'Add to Harpoon',
+    title: getHarpoonMenuTitle(state),
     contexts: ['page', 'action'] as const,
   });
   
-  // Create slot options (1-5 by default)
-  const state = await getHarpoonState();
+  // Create slot options for the active list (1-5 by default)
   for (let i = 1; i <= state.maxSlots; i++) {
-    const slot = state.slots[i - 1];
-    const title = slot 
-      ? `Slot ${i}: ${slot.title.substring(0, 20)}${slot.title.length > 20 ? '...' : ''}`
-      : `Slot ${i}: (empty)`;
-    
     chrome.contextMenus.create({
       id: `harpoon-slot-${i}`,
       parentId: 'harpoon-add',
-      title,
+      title: getSlotMenuTitle(state, i),
       contexts: ['page', 'action'] as const,
     });
   }
@@ -114,6 +268,23 @@ async function createContextMenus(): Promise<void> {
     title: 'Remove from Harpoon',
     contexts: ['page', 'action'] as const,
   });
+  
+  // Slot health actions, shown while they apply
+  const health = getHealthMenuVisibility(state);
+  chrome.contextMenus.create({
+    id: 'harpoon-follow-redirects',
+    parentId: 'hypertabs-parent',
+    title: 'Update redirected slots to their new URLs',
+    contexts: ['page', 'action'] as const,
+    visible: health.redirected,
+  });
+  chrome.contextMenus.create({
+    id: 'harpoon-clear-dead',
+    parentId: 'hypertabs-parent',
+    title: 'Clear dead slots',
+    contexts: ['page', 'action'] as const,
+    visible: health.dead,
+  });
 }
 
 /**
@@ -122,18 +293,27 @@ async function createContextMenus(): Promise<void> {
 async function updateContextMenus(): Promise<void> {
   const state = await getHarpoonState();
   
+  try {
+    await chrome.contextMenus.update('harpoon-add', { title: getHarpoonMenuTitle(state) });
+  } catch {
+    // Menu item might not exist yet
+  }
+  
   for (let i = 1; i <= state.maxSlots; i++) {
-    const slot = state.slots[i - 1];
-    const title = slot 
-      ? `Slot ${i}: ${slot.title.substring(0, 20)}${slot.title.length > 20 ? '...' : ''}`
-      : `Slot ${i}: (empty)`;
-    
     try {
-      await chrome.contextMenus.update(`harpoon-slot-${i}`, { title });
+      await chrome.contextMenus.update(`harpoon-slot-${i}`, { title: getSlotMenuTitle(state, i) });
     } catch {
       // Menu item might not exist yet
     }
   }
+  
+  const health = getHealthMenuVisibility(state);
+  try {
+    await chrome.contextMenus.update('harpoon-follow-redirects', { visible: health.redirected });
+    await chrome.contextMenus.update('harpoon-clear-dead', { visible: health.dead });
+  } catch {
+    // Menu items might not exist yet
+  }
 }
 
 /**
@@ -155,19 +335,98 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   // Handle remove from harpoon
   if (menuId === 'harpoon-remove') {
     if (tab?.url) {
-      const state = await getHarpoonState();
-      // Find and remove the slot with this URL
-      for (let i = 0; i < state.slots.length; i++) {
-        if (state.slots[i]?.url === tab.url) {
-          await removeFromSlot(i + 1);
-          await updateContextMenus();
-          break;
-        }
+      // Find and remove the slot this page belongs to
+      const slotId = findSlotForUrl(getActiveList(await getHarpoonState()).slots, tab.url);
+      if (slotId !== undefined) {
+        await removeFromSlot(slotId);
+        await updateContextMenus();
       }
     }
   }
+  
+  if (menuId === 'harpoon-follow-redirects') {
+    await followSlotRedirects();
+  }
+  
+  if (menuId === 'harpoon-clear-dead') {
+    await clearDeadSlots();
+  }
 });
 
+// =============================================================================
+// IN-PAGE OVERLAYS
+// =============================================================================
+
+/**
+ * Size of the fallback picker window
+ */
+const PICKER_WINDOW_SIZE = { width: 400, height: 460 };
+
+/**
+ * Slots of the active list, as the in-page overlays show them
+ */
+async function getSlotPickerData(): Promise<SlotPickerData> {
+  const state = await getHarpoonState();
+  const list = getActiveList(state);
+  return {
+    listName: list.name,
+    slots: Array.from({ length: state.maxSlots }, (_, i) => ({
+      id: i + 1,
+      title: list.slots[i]?.title ?? null,
+      url: list.slots[i]?.url ?? null,
+    })),
+  };
+}
+
+/**
+ * Lets the user pick the slot to mark the active tab into
+ * Injects the overlay into the page; where scripts can't run (chrome://
+ * pages, the Web Store, the PDF viewer) opens the picker in a small window
+ * instead. The choice comes back as a HARPOON_PICKER_CHOOSE message.
+ */
+async function openSlotPicker(): Promise<void> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id === undefined) return;
+  
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: showSlotPicker,
+      args: [await getSlotPickerData()],
+    });
+  } catch (error) {
+    console.log('HyperTabs: Cannot show the slot picker in this page, opening a window:', error);
+    await chrome.windows.create({
+      url: chrome.runtime.getURL(`src/picker/picker.html?tabId=${tab.id}`),
+      type: 'popup',
+      ...PICKER_WINDOW_SIZE,
+    });
+  }
+}
+
+/**
+ * Waits in the page for the key after the harpoon-leader command
+ * Reaches every slot, not just those with a command of their own. Where
+ * scripts can't run, opens the popup, whose harpoon bar does the same.
+ */
+async function openLeaderHint(): Promise<void> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id === undefined) return;
+  
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: showLeaderHint,
+      args: [await getSlotPickerData()],
+    });
+  } catch (error) {
+    console.log('HyperTabs: Cannot show the leader hint in this page, opening the popup:', error);
+    await chrome.action.openPopup().catch(() => {
+      // No focused window to open it in
+    });
+  }
+}
+
 // =============================================================================
 // KEYBOARD COMMANDS
 // =============================================================================
@@ -180,13 +439,8 @@ chrome.commands.onCommand.addListener(async (command) => {
   
   switch (command) {
     case 'harpoon-mark':
-      // Mark current tab to next available slot
-      // For now, we'll show a simple prompt by opening popup
-      // In the future, this could show an overlay to select slot
-      const slot = await markToSlot(1); // Default to slot 1
-      if (slot) {
-        await updateContextMenus();
-      }
+      // Ask which slot to mark into
+      await openSlotPicker();
       break;
       
     case 'harpoon-1':
@@ -205,6 +459,31 @@ chrome.commands.onCommand.addListener(async (command) => {
       await jumpToSlot(4);
       break;
       
+    case 'harpoon-next':
+      await jumpToNextSlot();
+      break;
+      
+    case 'harpoon-prev':
+      await jumpToPrevSlot();
+      break;
+      
+    case 'harpoon-last':
+      await jumpToLastSlot();
+      break;
+      
+    case 'harpoon-leader':
+      // Wait in the page for the slot key
+      await openLeaderHint();
+      break;
+      
+    case 'harpoon-list-next':
+      await switchToNextList();
+      break;
+      
+    case 'tab-previous':
+      await jumpToPreviousTab();
+      break;
+      
     case 'workspace-next':
       await switchToNextWorkspace();
       break;
@@ -264,6 +543,22 @@ async function handleMessage(
       return await jumpToSlot(slotId);
     }
     
+    case 'HARPOON_CYCLE': {
+      const { step } = message.payload as { step: number };
+      return step < 0 ? await jumpToPrevSlot() : await jumpToNextSlot();
+    }
+    
+    case 'HARPOON_JUMP_LAST':
+      return await jumpToLastSlot();
+    
+    case 'HARPOON_FOLLOW_REDIRECT': {
+      const { slotId } = (message.payload ?? {}) as { slotId?: number };
+      return await followSlotRedirects(slotId);
+    }
+    
+    case 'HARPOON_CLEAR_DEAD':
+      return await clearDeadSlots();
+    
     case 'HARPOON_REMOVE': {
       const { slotId } = message.payload as { slotId: number };
       await removeFromSlot(slotId);
@@ -271,12 +566,40 @@ async function handleMessage(
       return true;
     }
     
+    case 'HARPOON_PICKER_CHOOSE': {
+      // From the overlay the tab is the sender; the picker window names it
+      const { slotId, tabId = sender.tab?.id } = message.payload as { slotId: number | null; tabId?: number };
+      const marked = slotId === null
+        ? await markToNextAvailable(tabId)
+        : (await markToSlot(slotId, tabId))?.id ?? null;
+      await updateContextMenus();
+      return marked;
+    }
+    
+    case 'HARPOON_COMMIT_EDITS': {
+      const { listId, lines } = message.payload as { listId: string; lines: (SlotEdit | null)[] };
+      return await commitSlotEdits(listId, lines);
+    }
+    
+    case 'HARPOON_LIST_SWITCH': {
+      const { listId } = message.payload as { listId: string };
+      return await switchList(listId);
+    }
+    
+    case 'HARPOON_LIST_CREATE': {
+      const { name } = message.payload as { name: string };
+      const list = await createList(name);
+      await switchList(list.id);
+      return list;
+    }
+    
     // =========================================================================
     // SEARCH RESULT SELECTION
     // =========================================================================
     
     case 'SELECT_RESULT': {
       const result = message.payload as SearchResult;
+      recordVisit(result.url, 'select');
       
       switch (result.type) {
         case 'tab':
@@ -289,6 +612,15 @@ async function handleMessage(
           // Open in new tab
           await createTab(result.url);
           break;
+          
+        case 'harpoon':
+          // Jump to the slot, reopening its tab
+          await jumpToSlot(Number(result.id));
+          break;
+          
+        case 'workspace':
+          await switchWorkspace(result.id);
+          break;
       }
       
       return true;
@@ -309,12 +641,101 @@ async function handleMessage(
       return await createWorkspace(name);
     }
     
+    case 'WORKSPACE_SET_HARPOON_LIST': {
+      const { workspaceId, listId } = message.payload as { workspaceId: string; listId: string | null };
+      return await setWorkspaceHarpoonList(workspaceId, listId);
+    }
+    
     case 'WORKSPACE_DELETE': {
       const { workspaceId } = message.payload as { workspaceId: string };
       await deleteWorkspace(workspaceId);
       return true;
     }
     
+    // =========================================================================
+    // TAB MESSAGES
+    // =========================================================================
+    
+    case 'TABS_GET_SNAPSHOT':
+      return await getTabSnapshot();
+    
+    case 'TABS_GET_RECENT':
+      return await getRecentTabIds();
+    
+    case 'FRECENCY_RESET':
+      await resetFrecency();
+      return true;
+    
+    // =========================================================================
+    // BULK MESSAGES (several selected Telescope results)
+    // =========================================================================
+    
+    case 'TABS_BULK_CLOSE': {
+      const { tabIds } = message.payload as { tabIds: number[] };
+      await closeTabs(tabIds);
+      return true;
+    }
+    
+    case 'TABS_BULK_RELOAD': {
+      const { tabIds } = message.payload as { tabIds: number[] };
+      return await reloadTabs(tabIds);
+    }
+    
+    case 'TABS_BULK_PIN': {
+      const { tabIds, pinned } = message.payload as { tabIds: number[]; pinned: boolean };
+      return await setTabsPinned(tabIds, pinned);
+    }
+    
+    case 'TABS_BULK_MUTE': {
+      const { tabIds, muted } = message.payload as { tabIds: number[]; muted: boolean };
+      return await setTabsMuted(tabIds, muted);
+    }
+    
+    case 'TABS_BULK_DISCARD': {
+      const { tabIds } = message.payload as { tabIds: number[] };
+      return await discardTabs(tabIds);
+    }
+    
+    case 'TABS_BULK_MOVE': {
+      const { tabIds, windowId } = message.payload as { tabIds: number[]; windowId: number | null };
+      return await moveTabsToWindow(tabIds, windowId);
+    }
+    
+    case 'TABS_BULK_ASSIGN_WORKSPACE': {
+      const { tabIds, workspaceId } = message.payload as { tabIds: number[]; workspaceId: string };
+      await assignTabsToWorkspace(tabIds, workspaceId);
+      return true;
+    }
+    
+    case 'TABS_BULK_GROUP': {
+      const { tabIds, title } = message.payload as { tabIds: number[]; title: string };
+      return await groupTabsTogether(tabIds, title);
+    }
+    
+    case 'PAGES_BULK_BOOKMARK': {
+      const { pages, folderId } = message.payload as { pages: BulkPage[]; folderId: string };
+      return await bookmarkPages(pages, folderId);
+    }
+    
+    case 'PAGES_BULK_COPY_MARKDOWN': {
+      const { pages } = message.payload as { pages: BulkPage[] };
+      return toMarkdownList(pages);
+    }
+    
+    // =========================================================================
+    // HISTORY MESSAGES
+    // =========================================================================
+    
+    case 'HISTORY_UNDO': {
+      const entry = await undo();
+      return entry ? { label: entry.label } : null;
+    }
+    
+    case 'HISTORY_REDO': {
+      const entry = await redo();
+      return entry ? { label: entry.label } : null;
+    }
+    
     // =========================================================================
     // DEFAULT
     // =========================================================================
@@ -331,16 +752,33 @@ async function handleMessage(
 
 /**
  * Listen for tab updates to keep harpoon state in sync
+ * Slots follow navigation per their follow policy; titles and favicons
+ * refresh as pages load; pinning and grouping are recorded for reopening
  */
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
-  // Only care about URL changes (navigation)
-  if (changeInfo.url) {
-    // Sync might be needed if URLs changed
-    // For now, we don't auto-update harpoon URLs
-    // Users explicitly mark tabs
+  if (
+    changeInfo.url ||
+    changeInfo.title ||
+    changeInfo.favIconUrl ||
+    changeInfo.status === 'complete' ||
+    changeInfo.pinned !== undefined ||
+    changeInfo.groupId !== undefined
+  ) {
+    await followTabNavigation(tab);
   }
 });
 
+/**
+ * Record where harpooned tabs are moved to, for reopening them in place
+ */
+async function handleTabMoved(tabId: number): Promise<void> {
+  const tab = await chrome.tabs.get(tabId).catch(() => undefined);
+  if (tab) await followTabNavigation(tab);
+}
+
+chrome.tabs.onMoved.addListener(handleTabMoved);
+chrome.tabs.onAttached.addListener(handleTabMoved);
+
 /**
  * Listen for tab removal
  * Note: We don't automatically remove from harpoon when tab is closed
@@ -355,9 +793,18 @@ chrome.tabs.onRemoved.addListener(async (tabId, removeInfo) => {
 // =============================================================================
 
 /**
- * Listen for storage changes to update context menus
+ * Listen for storage changes to update context menus and keep sync storage
+ * in step with local data
  */
 chrome.storage.onChanged.addListener(async (changes, areaName) => {
+  if (areaName === 'local' && (changes.harpoon || changes.workspaces || changes.settings)) {
+    scheduleSync();
+  }
+  
+  if (areaName === 'sync' && isSyncPayloadChange(changes)) {
+    scheduleSync();
+  }
+  
   if (areaName === 'local' && changes.harpoon) {
     await updateContextMenus();
   }
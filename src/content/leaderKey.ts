@@ -0,0 +1,145 @@
+/**
+ * Leader-Key Overlay - Injected Into the Active Page
+ *
+ * Shown by the harpoon-leader command. Chrome only lets an extension suggest
+ * a few shortcuts, so instead of one command per slot the leader command
+ * waits in the page for one more key:
+ * - 1-9, 0: jump to that slot (0 is slot 10)
+ * - n / p: jump to the next / previous filled slot
+ * - l: toggle back to the last slot jumped from
+ * - Esc, or no key within a few seconds: cancel
+ * Any other key cancels too, and still reaches the page.
+ *
+ * showLeaderHint() is injected with chrome.scripting.executeScript, which
+ * serializes the function on its own. Like showSlotPicker() it must stay
+ * self-contained: no imports, no helpers from this module, no outer
+ * variables - only its argument and browser globals.
+ */
+
+import type { SlotPickerData } from '../lib/types';
+
+/**
+ * Shows the leader-key hint on the current page and waits for one key
+ * Showing it again replaces the open one.
+ *
+ * @param data - Slots to show, from the service worker
+ */
+export function showLeaderHint(data: SlotPickerData): void {
+  const HOST_ID = 'hypertabs-leader-hint';
+  const TIMEOUT_MS = 3000;
+  document.getElementById(HOST_ID)?.remove();
+
+  // Shadow DOM keeps page styles out and ours in
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  host.style.cssText = 'position: fixed; left: 0; right: 0; bottom: 24px; z-index: 2147483647; pointer-events: none;';
+  const root = host.attachShadow({ mode: 'closed' });
+
+  const style = document.createElement('style');
+  style.textContent = `
+    .bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 14px;
+      max-width: 640px;
+      margin: 0 auto;
+      padding: 8px 12px;
+      border: 1px solid #2a2a4a;
+      border-radius: 8px;
+      background: #1a1a2e;
+      color: #eee;
+      box-shadow: 0 12px 32px rgba(0, 0, 0, 0.5);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 12px;
+    }
+    .slot {
+      max-width: 180px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .key {
+      margin-right: 4px;
+      color: #6366f1;
+      font-family: monospace;
+      font-weight: 600;
+    }
+    .hint {
+      width: 100%;
+      color: #888;
+      font-size: 11px;
+    }
+  `;
+  root.appendChild(style);
+
+  const bar = document.createElement('div');
+  bar.className = 'bar';
+
+  // Only filled slots can be jumped to
+  const filled = data.slots.filter((slot) => slot.url !== null);
+  for (const slot of filled) {
+    const item = document.createElement('span');
+    item.className = 'slot';
+    const key = document.createElement('span');
+    key.className = 'key';
+    key.textContent = String(slot.id % 10);
+    item.append(key, slot.title || slot.url || '');
+    bar.appendChild(item);
+  }
+
+  const hint = document.createElement('div');
+  hint.className = 'hint';
+  hint.textContent = filled.length > 0
+    ? `Harpoon - ${data.listName} · n/p: next/prev · l: last · Esc: cancel`
+    : `Harpoon - ${data.listName} is empty · Esc: cancel`;
+  bar.appendChild(hint);
+  root.appendChild(bar);
+
+  const close = () => {
+    clearTimeout(timer);
+    document.removeEventListener('keydown', handleKeydown, true);
+    host.remove();
+  };
+
+  const send = (message: { type: string; payload?: unknown }) => {
+    close();
+    chrome.runtime.sendMessage(message).catch(() => {
+      // The extension was reloaded since the hint was shown
+    });
+  };
+
+  // Capture phase, so page shortcuts don't see the keys meant for us
+  function handleKeydown(event: KeyboardEvent) {
+    // Modifiers alone don't end the wait
+    if (['Shift', 'Control', 'Alt', 'Meta'].includes(event.key)) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      close();
+      return;
+    }
+
+    if (event.key === 'Escape') {
+      close();
+    } else if (/^[0-9]$/.test(event.key)) {
+      const slotId = event.key === '0' ? 10 : Number(event.key);
+      if (!filled.some((slot) => slot.id === slotId)) {
+        close();
+        return;
+      }
+      send({ type: 'HARPOON_JUMP', payload: { slotId } });
+    } else if (event.key === 'n' || event.key === 'p') {
+      send({ type: 'HARPOON_CYCLE', payload: { step: event.key === 'n' ? 1 : -1 } });
+    } else if (event.key === 'l') {
+      send({ type: 'HARPOON_JUMP_LAST' });
+    } else {
+      close();
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  const timer = setTimeout(close, TIMEOUT_MS);
+  document.addEventListener('keydown', handleKeydown, true);
+  document.documentElement.appendChild(host);
+}
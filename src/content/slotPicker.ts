@@ -0,0 +1,169 @@
+/**
+ * Slot Picker Overlay - Injected Into the Active Page
+ *
+ * Shown by the harpoon-mark command. Lists the active harpoon list's slots
+ * and waits for one key:
+ * - 1-9, 0: mark the page into that slot (0 is slot 10)
+ * - Enter: mark into the next free slot
+ * - Esc: close without marking
+ *
+ * showSlotPicker() is injected with chrome.scripting.executeScript, which
+ * serializes the function on its own. It must stay self-contained: no
+ * imports, no helpers from this module, no outer variables - only its
+ * argument and browser globals. The choice is sent back to the service
+ * worker as a HARPOON_PICKER_CHOOSE message.
+ */
+
+import type { SlotPickerData } from '../lib/types';
+
+/**
+ * Shows the slot picker overlay on the current page
+ * Showing it again replaces the open one.
+ *
+ * @param data - Slots to show, from the service worker
+ */
+export function showSlotPicker(data: SlotPickerData): void {
+  const HOST_ID = 'hypertabs-slot-picker';
+  document.getElementById(HOST_ID)?.remove();
+
+  // Shadow DOM keeps page styles out and ours in
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  host.style.cssText = 'position: fixed; inset: 0; z-index: 2147483647;';
+  const root = host.attachShadow({ mode: 'closed' });
+
+  const style = document.createElement('style');
+  style.textContent = `
+    .backdrop {
+      position: fixed;
+      inset: 0;
+      display: flex;
+      align-items: flex-start;
+      justify-content: center;
+      padding-top: 15vh;
+      background: rgba(0, 0, 0, 0.4);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    }
+    .panel {
+      width: 360px;
+      padding: 12px;
+      border: 1px solid #2a2a4a;
+      border-radius: 8px;
+      background: #1a1a2e;
+      color: #eee;
+      box-shadow: 0 12px 32px rgba(0, 0, 0, 0.5);
+    }
+    .heading {
+      margin-bottom: 8px;
+      font-size: 13px;
+      font-weight: 600;
+    }
+    .slot {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      padding: 6px 8px;
+      border-radius: 4px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+    .slot:hover {
+      background: #252550;
+    }
+    .key {
+      width: 18px;
+      color: #6366f1;
+      font-family: monospace;
+      font-weight: 600;
+    }
+    .title {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .empty {
+      color: #666;
+    }
+    .hint {
+      margin-top: 8px;
+      color: #888;
+      font-size: 11px;
+    }
+  `;
+  root.appendChild(style);
+
+  const backdrop = document.createElement('div');
+  backdrop.className = 'backdrop';
+  const panel = document.createElement('div');
+  panel.className = 'panel';
+  backdrop.appendChild(panel);
+
+  const heading = document.createElement('div');
+  heading.className = 'heading';
+  heading.textContent = `Mark to Harpoon - ${data.listName}`;
+  panel.appendChild(heading);
+
+  const close = () => {
+    document.removeEventListener('keydown', handleKeydown, true);
+    host.remove();
+  };
+
+  // null marks into the next free slot
+  const choose = (slotId: number | null) => {
+    close();
+    chrome.runtime.sendMessage({ type: 'HARPOON_PICKER_CHOOSE', payload: { slotId } }).catch(() => {
+      // The extension was reloaded since the overlay was shown
+    });
+  };
+
+  for (const slot of data.slots) {
+    const row = document.createElement('div');
+    row.className = 'slot';
+    const key = document.createElement('span');
+    key.className = 'key';
+    key.textContent = String(slot.id % 10);
+    const title = document.createElement('span');
+    title.className = slot.title === null ? 'title empty' : 'title';
+    title.textContent = slot.title ?? '(empty)';
+    if (slot.url) title.title = slot.url;
+    row.append(key, title);
+    row.addEventListener('click', () => choose(slot.id));
+    panel.appendChild(row);
+  }
+
+  const hint = document.createElement('div');
+  hint.className = 'hint';
+  hint.textContent = 'Press a number to mark into that slot · Enter: next free slot · Esc: cancel';
+  panel.appendChild(hint);
+
+  backdrop.addEventListener('click', (event) => {
+    if (event.target === backdrop) close();
+  });
+
+  // Capture phase, so page shortcuts don't see the keys meant for us
+  function handleKeydown(event: KeyboardEvent) {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    let slotId: number | null | undefined;
+    if (event.key === 'Escape') {
+      slotId = undefined;
+      close();
+    } else if (event.key === 'Enter') {
+      slotId = null;
+    } else if (/^[0-9]$/.test(event.key)) {
+      const id = event.key === '0' ? 10 : Number(event.key);
+      if (!data.slots.some((slot) => slot.id === id)) return;
+      slotId = id;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    if (slotId !== undefined) choose(slotId);
+  }
+
+  document.addEventListener('keydown', handleKeydown, true);
+  root.appendChild(backdrop);
+  document.documentElement.appendChild(host);
+}
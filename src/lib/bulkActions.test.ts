@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { moveTabsToWindow } from './bulkActions';
+
+const OPEN_TABS = new Set([2, 3]);
+
+const tabs = {
+  get: vi.fn(async (tabId: number) => {
+    if (!OPEN_TABS.has(tabId)) throw new Error(`No tab with id: ${tabId}.`);
+    return { id: tabId, windowId: 1 };
+  }),
+  move: vi.fn(async () => []),
+};
+const windows = {
+  create: vi.fn(async () => ({ id: 7 })),
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubGlobal('chrome', { tabs, windows });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('moveTabsToWindow', () => {
+  it('creates a new window around the first tab that is still open', async () => {
+    expect(await moveTabsToWindow([1, 2, 3], null)).toBe(7);
+
+    expect(windows.create).toHaveBeenCalledWith({ tabId: 2, focused: true });
+    expect(tabs.move).toHaveBeenCalledWith([3], { windowId: 7, index: -1 });
+  });
+
+  it('moves only open tabs into an existing window', async () => {
+    expect(await moveTabsToWindow([2, 4, 3], 5)).toBe(5);
+
+    expect(windows.create).not.toHaveBeenCalled();
+    expect(tabs.move).toHaveBeenCalledWith([2, 3], { windowId: 5, index: -1 });
+  });
+
+  it('does nothing when all tabs are gone', async () => {
+    expect(await moveTabsToWindow([1, 4], null)).toBeUndefined();
+
+    expect(windows.create).not.toHaveBeenCalled();
+    expect(tabs.move).not.toHaveBeenCalled();
+  });
+});
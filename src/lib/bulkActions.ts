@@ -0,0 +1,201 @@
+/**
+ * Bulk Actions - Acting on Many Telescope Results at Once
+ *
+ * Runs in the service worker when several results are selected in the
+ * popup. Tab actions take tab IDs and skip tabs that closed in the
+ * meantime; bookmarking and copying take plain pages, so they work for
+ * history and bookmark results too.
+ */
+
+import type { BulkPage } from './types';
+import { closeTab, groupTabs } from './tabs';
+
+// =============================================================================
+// TAB ACTIONS
+// =============================================================================
+
+/**
+ * Runs an action on each tab, ignoring tabs that no longer exist
+ *
+ * @returns Number of tabs the action succeeded on
+ */
+async function forEachTab(tabIds: number[], action: (tabId: number) => Promise<unknown>): Promise<number> {
+  const outcomes = await Promise.allSettled(tabIds.map(action));
+  return outcomes.filter((outcome) => outcome.status === 'fulfilled').length;
+}
+
+/**
+ * Looks up tabs, leaving out those that no longer exist
+ *
+ * @returns The open tabs, in the order given
+ */
+async function getLiveTabs(tabIds: number[]): Promise<chrome.tabs.Tab[]> {
+  return (await Promise.all(tabIds.map((tabId) => chrome.tabs.get(tabId).catch(() => undefined))))
+    .filter((tab): tab is chrome.tabs.Tab => tab?.id !== undefined);
+}
+
+/**
+ * Closes tabs
+ *
+ * @param tabIds - Tabs to close
+ */
+export async function closeTabs(tabIds: number[]): Promise<void> {
+  await Promise.all(tabIds.map(closeTab));
+}
+
+/**
+ * Reloads tabs
+ *
+ * @param tabIds - Tabs to reload
+ * @returns Number of tabs reloaded
+ */
+export async function reloadTabs(tabIds: number[]): Promise<number> {
+  return await forEachTab(tabIds, (tabId) => chrome.tabs.reload(tabId));
+}
+
+/**
+ * Pins or unpins tabs
+ *
+ * @param tabIds - Tabs to change
+ * @param pinned - Whether to pin (true) or unpin (false)
+ * @returns Number of tabs changed
+ */
+export async function setTabsPinned(tabIds: number[], pinned: boolean): Promise<number> {
+  return await forEachTab(tabIds, (tabId) => chrome.tabs.update(tabId, { pinned }));
+}
+
+/**
+ * Mutes or unmutes tabs
+ *
+ * @param tabIds - Tabs to change
+ * @param muted - Whether to mute (true) or unmute (false)
+ * @returns Number of tabs changed
+ */
+export async function setTabsMuted(tabIds: number[], muted: boolean): Promise<number> {
+  return await forEachTab(tabIds, (tabId) => chrome.tabs.update(tabId, { muted }));
+}
+
+/**
+ * Discards tabs to free their memory
+ * Chrome refuses to discard the active tab; it is skipped.
+ *
+ * @param tabIds - Tabs to discard
+ * @returns Number of tabs discarded
+ */
+export async function discardTabs(tabIds: number[]): Promise<number> {
+  return await forEachTab(tabIds, (tabId) => chrome.tabs.discard(tabId));
+}
+
+/**
+ * Moves tabs to the end of a window, or into a new window
+ * A new window is created around the first tab that is still open.
+ *
+ * @param tabIds - Tabs to move, in the order they should end up
+ * @param windowId - Target window, or null for a new window
+ * @returns ID of the window the tabs were moved to
+ */
+export async function moveTabsToWindow(tabIds: number[], windowId: number | null): Promise<number | undefined> {
+  const liveTabIds = (await getLiveTabs(tabIds)).map((tab) => tab.id!);
+  const [first, ...rest] = liveTabIds;
+  if (first === undefined) return undefined;
+
+  let targetWindowId = windowId;
+  let toMove = liveTabIds;
+  if (targetWindowId === null) {
+    const win = await chrome.windows.create({ tabId: first, focused: true });
+    targetWindowId = win?.id ?? null;
+    toMove = rest;
+  }
+  if (targetWindowId === null) return undefined;
+
+  if (toMove.length > 0) {
+    await chrome.tabs.move(toMove, { windowId: targetWindowId, index: -1 });
+  }
+  return targetWindowId;
+}
+
+/**
+ * Puts tabs into a new tab group
+ * Chrome only groups tabs within one window; tabs from other windows are
+ * moved into the first tab's window first.
+ *
+ * @param tabIds - Tabs to group
+ * @param title - Group title ('' for none)
+ * @returns The new group's ID
+ */
+export async function groupTabsTogether(tabIds: number[], title: string): Promise<number> {
+  const tabs = await getLiveTabs(tabIds);
+  const windowId = tabs[0]?.windowId;
+
+  const strays = tabs.filter((tab) => tab.windowId !== windowId).map((tab) => tab.id!);
+  if (strays.length > 0 && windowId !== undefined) {
+    await chrome.tabs.move(strays, { windowId, index: -1 });
+  }
+
+  return await groupTabs(tabs.map((tab) => tab.id!), { title: title || undefined, windowId });
+}
+
+// =============================================================================
+// PAGE ACTIONS
+// =============================================================================
+
+/**
+ * Lists bookmark folders, for picking where to bookmark into
+ *
+ * @returns Folders in tree order, with their path as title (e.g. "Bookmarks bar / Work")
+ */
+export async function getBookmarkFolders(): Promise<{ id: string; title: string }[]> {
+  const folders: { id: string; title: string }[] = [];
+
+  const walk = (nodes: chrome.bookmarks.BookmarkTreeNode[], path: string[]) => {
+    for (const node of nodes) {
+      if (node.url) continue;
+      const nodePath = node.title ? [...path, node.title] : path;
+      // The root has no title and can't hold bookmarks
+      if (node.title) folders.push({ id: node.id, title: nodePath.join(' / ') });
+      if (node.children) walk(node.children, nodePath);
+    }
+  };
+  walk(await chrome.bookmarks.getTree(), []);
+
+  return folders;
+}
+
+/**
+ * Bookmarks pages into a folder
+ * Pages already bookmarked in that folder are skipped.
+ *
+ * @param pages - Pages to bookmark
+ * @param folderId - Folder to add them to
+ * @returns Number of bookmarks created
+ */
+export async function bookmarkPages(pages: BulkPage[], folderId: string): Promise<number> {
+  const existing = new Set(
+    (await chrome.bookmarks.getChildren(folderId)).map((node) => node.url).filter(Boolean)
+  );
+
+  let created = 0;
+  for (const page of pages) {
+    if (existing.has(page.url)) continue;
+    await chrome.bookmarks.create({ parentId: folderId, title: page.title, url: page.url });
+    existing.add(page.url);
+    created++;
+  }
+  return created;
+}
+
+/**
+ * Formats pages as a Markdown list of links
+ *
+ * @param pages - Pages to list
+ * @returns One `- [title](url)` line per page
+ */
+export function toMarkdownList(pages: BulkPage[]): string {
+  return pages
+    .map((page) => {
+      // Brackets would end the link text early
+      const title = (page.title || page.url).replace(/([[\]\\])/g, '\\$1');
+      return `- [${title}](${page.url.replace(/\)/g, '%29')})`;
+    })
+    .join('\n');
+}
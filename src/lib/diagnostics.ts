@@ -0,0 +1,430 @@
+/**
+ * Diagnostics - Storage Integrity Checker
+ *
+ * Some stored relationships are recorded more than once:
+ * - WorkspaceState keeps tab membership in tabToWorkspace, Workspace.tabIds
+ *   and Workspace.tabUrls
+ * - Each harpoon list encodes the slot number both as the array index and
+ *   as HarpoonSlot.id
+ *
+ * Bugs, interrupted writes or hand-edited imports can let these copies drift
+ * apart. checkIntegrity() reports every inconsistency; repairState() rebuilds
+ * the derived fields from one source of truth:
+ * - tabToWorkspace decides which workspace a tab belongs to
+ * - The array index decides a harpoon slot's ID
+ *
+ * Both are pure. runIntegrityCheck() and repairIntegrity() wire them up to
+ * storage and the open tabs.
+ */
+
+import type { HarpoonList, HarpoonSlot, HarpoonState, Workspace, WorkspaceState, IntegrityIssue } from './types';
+import { get, withStorageLock, writeUnlocked, DEFAULT_HARPOON_STATE, DEFAULT_WORKSPACE_STATE } from './storage';
+import { takeSnapshot } from './snapshots';
+import { getAllTabs } from './tabs';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Checks whether two lists contain the same values, ignoring order
+ */
+function sameMembers<T>(a: T[], b: T[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return a.length === setA.size && setA.size === setB.size && [...setA].every((value) => setB.has(value));
+}
+
+/**
+ * Gets the tab IDs tabToWorkspace assigns to a workspace
+ */
+function mappedTabIds(state: WorkspaceState, workspaceId: string): number[] {
+  return Object.entries(state.tabToWorkspace)
+    .filter(([, wsId]) => wsId === workspaceId)
+    .map(([tabId]) => Number(tabId));
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Finds inconsistencies in one harpoon list's slots
+ */
+function checkHarpoonList(list: HarpoonList, maxSlots: number): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  list.slots.forEach((slot, index) => {
+    if (!slot) return;
+
+    if (index >= maxSlots) {
+      issues.push({
+        code: 'slot-beyond-max',
+        section: 'harpoon',
+        message: `"${slot.title}" is stored in slot ${index + 1} of "${list.name}", beyond the ${maxSlots} configured slots`,
+      });
+    } else if (slot.id !== index + 1) {
+      issues.push({
+        code: 'slot-id-mismatch',
+        section: 'harpoon',
+        message: `Slot ${index + 1} of "${list.name}" ("${slot.title}") has ID ${slot.id}`,
+      });
+    }
+  });
+
+  const beyondMax = issues.some((issue) => issue.code === 'slot-beyond-max');
+  if (!beyondMax && list.slots.length !== maxSlots) {
+    issues.push({
+      code: 'slot-count-mismatch',
+      section: 'harpoon',
+      message: `"${list.name}" has ${list.slots.length} slot entries but ${maxSlots} slots are configured`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Finds inconsistencies in harpoon state
+ */
+function checkHarpoon(state: HarpoonState): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  if (state.lists.length === 0) {
+    issues.push({
+      code: 'missing-list',
+      section: 'harpoon',
+      message: 'There are no harpoon lists',
+    });
+    return issues;
+  }
+
+  const listIds = new Set<string>();
+  for (const list of state.lists) {
+    if (listIds.has(list.id)) {
+      issues.push({
+        code: 'duplicate-list-id',
+        section: 'harpoon',
+        message: `More than one harpoon list has ID "${list.id}"`,
+      });
+    }
+    listIds.add(list.id);
+    issues.push(...checkHarpoonList(list, state.maxSlots));
+  }
+
+  if (!listIds.has(state.activeListId)) {
+    issues.push({
+      code: 'invalid-active-list',
+      section: 'harpoon',
+      message: `Active harpoon list "${state.activeListId}" doesn't exist`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Finds inconsistencies in workspace state
+ */
+function checkWorkspaces(state: WorkspaceState, openTabs?: chrome.tabs.Tab[]): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const workspaceIds = new Set<string>();
+
+  for (const ws of state.workspaces) {
+    if (workspaceIds.has(ws.id)) {
+      issues.push({
+        code: 'duplicate-workspace-id',
+        section: 'workspaces',
+        message: `More than one workspace has ID "${ws.id}"`,
+      });
+    }
+    workspaceIds.add(ws.id);
+  }
+
+  const defaults = state.workspaces.filter((ws) => ws.isDefault);
+  if (defaults.length === 0) {
+    issues.push({
+      code: 'missing-default',
+      section: 'workspaces',
+      message: 'No workspace is marked as the default',
+    });
+  } else if (defaults.length > 1) {
+    issues.push({
+      code: 'duplicate-default',
+      section: 'workspaces',
+      message: `${defaults.length} workspaces are marked as the default: ${defaults.map((ws) => `"${ws.name}"`).join(', ')}`,
+    });
+  }
+
+  if (state.activeWorkspaceId !== null && !workspaceIds.has(state.activeWorkspaceId)) {
+    issues.push({
+      code: 'invalid-active-workspace',
+      section: 'workspaces',
+      message: `Active workspace "${state.activeWorkspaceId}" doesn't exist`,
+    });
+  }
+
+  const openTabIds = openTabs && new Set(openTabs.map((tab) => tab.id));
+  for (const [tabId, wsId] of Object.entries(state.tabToWorkspace)) {
+    if (!workspaceIds.has(wsId)) {
+      issues.push({
+        code: 'orphan-tab-mapping',
+        section: 'workspaces',
+        message: `Tab ${tabId} is assigned to missing workspace "${wsId}"`,
+      });
+    }
+    if (openTabIds && !openTabIds.has(Number(tabId))) {
+      issues.push({
+        code: 'stale-tab-mapping',
+        section: 'workspaces',
+        message: `Tab ${tabId} is assigned to a workspace but is no longer open`,
+      });
+    }
+  }
+
+  for (const ws of state.workspaces) {
+    if (!sameMembers(ws.tabIds, mappedTabIds(state, ws.id))) {
+      issues.push({
+        code: 'tab-ids-mismatch',
+        section: 'workspaces',
+        message: `Tab list of "${ws.name}" doesn't match the tab assignments`,
+      });
+    }
+  }
+
+  // A tab's URL belongs in its own workspace's URL list and no other
+  for (const tab of openTabs ?? []) {
+    const wsId = tab.id !== undefined ? state.tabToWorkspace[tab.id] : undefined;
+    if (!tab.url || !wsId || !workspaceIds.has(wsId)) continue;
+
+    const listedIn = state.workspaces.filter((ws) => ws.tabUrls.includes(tab.url!));
+    if (!listedIn.some((ws) => ws.id === wsId) || listedIn.some((ws) => ws.id !== wsId)) {
+      issues.push({
+        code: 'tab-url-mismatch',
+        section: 'workspaces',
+        message: `URL of tab ${tab.id} (${tab.url}) isn't listed under its workspace only`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Finds workspaces that own a harpoon list that doesn't exist
+ */
+function checkWorkspaceLists(workspaces: WorkspaceState, harpoon: HarpoonState): IntegrityIssue[] {
+  const listIds = new Set(harpoon.lists.map((list) => list.id));
+  return workspaces.workspaces
+    .filter((ws) => ws.harpoonListId !== undefined && !listIds.has(ws.harpoonListId))
+    .map((ws) => ({
+      code: 'missing-workspace-list',
+      section: 'workspaces',
+      message: `"${ws.name}" owns missing harpoon list "${ws.harpoonListId}"`,
+    }));
+}
+
+/**
+ * Finds inconsistencies in stored state
+ * Checks that depend on which tabs are open are skipped when openTabs is
+ * not provided.
+ *
+ * @param harpoon - Harpoon state to check
+ * @param workspaces - Workspace state to check
+ * @param openTabs - Currently open tabs
+ * @returns All issues found, empty if the state is consistent
+ */
+export function checkIntegrity(
+  harpoon: HarpoonState,
+  workspaces: WorkspaceState,
+  openTabs?: chrome.tabs.Tab[]
+): IntegrityIssue[] {
+  return [
+    ...checkHarpoon(harpoon),
+    ...checkWorkspaces(workspaces, openTabs),
+    ...checkWorkspaceLists(workspaces, harpoon),
+  ];
+}
+
+// =============================================================================
+// REPAIR
+// =============================================================================
+
+/**
+ * Rebuilds a harpoon list's slots so slot IDs match their index
+ * Slots stored beyond maxSlots move into free slots; any that don't fit are
+ * dropped.
+ */
+function repairHarpoonSlots(stored: (HarpoonSlot | null)[], maxSlots: number): (HarpoonSlot | null)[] {
+  const slots: (HarpoonSlot | null)[] = [];
+  for (let i = 0; i < maxSlots; i++) {
+    slots.push(stored[i] ?? null);
+  }
+
+  for (const slot of stored.slice(maxSlots)) {
+    const free = slots.indexOf(null);
+    if (!slot || free === -1) continue;
+    slots[free] = slot;
+  }
+
+  return slots.map((slot, index) => (slot && slot.id !== index + 1 ? { ...slot, id: index + 1 } : slot));
+}
+
+/**
+ * Rebuilds harpoon state
+ * Keeps the first list for each ID and makes sure the active list exists
+ */
+function repairHarpoon(state: HarpoonState): HarpoonState {
+  const seen = new Set<string>();
+  let lists: HarpoonList[] = state.lists.filter((list) => {
+    if (seen.has(list.id)) return false;
+    seen.add(list.id);
+    return true;
+  });
+
+  if (lists.length === 0) {
+    lists = DEFAULT_HARPOON_STATE.lists.map((list) => ({ ...list }));
+  }
+
+  return {
+    ...state,
+    lists: lists.map((list) => ({ ...list, slots: repairHarpoonSlots(list.slots, state.maxSlots) })),
+    activeListId: seen.has(state.activeListId) ? state.activeListId : lists[0]!.id,
+  };
+}
+
+/**
+ * Rebuilds workspace state from tabToWorkspace
+ */
+function repairWorkspaces(state: WorkspaceState, openTabs?: chrome.tabs.Tab[]): WorkspaceState {
+  // Keep the first workspace for each ID
+  const seen = new Set<string>();
+  let workspaces: Workspace[] = state.workspaces.filter((ws) => {
+    if (seen.has(ws.id)) return false;
+    seen.add(ws.id);
+    return true;
+  });
+
+  // Exactly one default: the first one marked, else the first workspace
+  if (workspaces.length === 0) {
+    workspaces = DEFAULT_WORKSPACE_STATE.workspaces.map((ws) => ({ ...ws }));
+  }
+  const defaultId = workspaces.find((ws) => ws.isDefault)?.id ?? workspaces[0]!.id;
+  workspaces = workspaces.map((ws) =>
+    Boolean(ws.isDefault) === (ws.id === defaultId) ? ws : { ...ws, isDefault: ws.id === defaultId }
+  );
+  const workspaceIds = new Set(workspaces.map((ws) => ws.id));
+
+  // Drop closed tabs, move tabs of missing workspaces to the default
+  const openTabIds = openTabs && new Set(openTabs.map((tab) => tab.id));
+  const tabToWorkspace: Record<number, string> = {};
+  for (const [tabId, wsId] of Object.entries(state.tabToWorkspace)) {
+    if (openTabIds && !openTabIds.has(Number(tabId))) continue;
+    tabToWorkspace[Number(tabId)] = workspaceIds.has(wsId) ? wsId : defaultId;
+  }
+
+  const rebuilt: WorkspaceState = {
+    workspaces,
+    tabToWorkspace,
+    activeWorkspaceId:
+      state.activeWorkspaceId === null || workspaceIds.has(state.activeWorkspaceId)
+        ? state.activeWorkspaceId
+        : defaultId,
+  };
+
+  rebuilt.workspaces = rebuilt.workspaces.map((ws) => {
+    const tabIds = mappedTabIds(rebuilt, ws.id);
+    return sameMembers(ws.tabIds, tabIds) ? ws : { ...ws, tabIds };
+  });
+
+  // Each open tab's URL is listed under its own workspace only
+  for (const tab of openTabs ?? []) {
+    const wsId = tab.id !== undefined ? tabToWorkspace[tab.id] : undefined;
+    const url = tab.url;
+    if (!url || !wsId) continue;
+
+    rebuilt.workspaces = rebuilt.workspaces.map((ws) => {
+      if (ws.id === wsId) {
+        return ws.tabUrls.includes(url) ? ws : { ...ws, tabUrls: [...ws.tabUrls, url] };
+      }
+      return ws.tabUrls.includes(url) ? { ...ws, tabUrls: ws.tabUrls.filter((u) => u !== url) } : ws;
+    });
+  }
+
+  return rebuilt;
+}
+
+/**
+ * Repairs every inconsistency checkIntegrity() reports
+ *
+ * @param harpoon - Harpoon state to repair
+ * @param workspaces - Workspace state to repair
+ * @param openTabs - Currently open tabs
+ * @returns Repaired copies of both states
+ */
+export function repairState(
+  harpoon: HarpoonState,
+  workspaces: WorkspaceState,
+  openTabs?: chrome.tabs.Tab[]
+): { harpoon: HarpoonState; workspaces: WorkspaceState } {
+  const repairedHarpoon = repairHarpoon(harpoon);
+  const repairedWorkspaces = repairWorkspaces(workspaces, openTabs);
+
+  // Workspaces whose list is gone fall back to the global list
+  const listIds = new Set(repairedHarpoon.lists.map((list) => list.id));
+  repairedWorkspaces.workspaces = repairedWorkspaces.workspaces.map((ws) => {
+    if (ws.harpoonListId === undefined || listIds.has(ws.harpoonListId)) return ws;
+    const { harpoonListId: _missing, ...rest } = ws;
+    return rest;
+  });
+
+  return { harpoon: repairedHarpoon, workspaces: repairedWorkspaces };
+}
+
+// =============================================================================
+// STORAGE OPERATIONS
+// =============================================================================
+
+/**
+ * Checks the stored state against the open tabs
+ *
+ * @returns All issues found, empty if the state is consistent
+ */
+export async function runIntegrityCheck(): Promise<IntegrityIssue[]> {
+  const [harpoon, workspaces, openTabs] = await Promise.all([
+    get('harpoon'),
+    get('workspaces'),
+    getAllTabs(),
+  ]);
+  return checkIntegrity(harpoon, workspaces, openTabs);
+}
+
+/**
+ * Repairs the stored state
+ * A snapshot is taken first so the repair can be reverted.
+ *
+ * @returns The issues that were repaired, empty if there was nothing to do
+ */
+export async function repairIntegrity(): Promise<IntegrityIssue[]> {
+  if ((await runIntegrityCheck()).length === 0) {
+    return [];
+  }
+
+  await takeSnapshot('repair');
+  const openTabs = await getAllTabs();
+
+  return await withStorageLock(async () => {
+    const harpoon = await get('harpoon');
+    const workspaces = await get('workspaces');
+
+    const issues = checkIntegrity(harpoon, workspaces, openTabs);
+    if (issues.length === 0) return [];
+
+    const repaired = repairState(harpoon, workspaces, openTabs);
+    await writeUnlocked('harpoon', repaired.harpoon);
+    await writeUnlocked('workspaces', repaired.workspaces);
+
+    console.log(`Diagnostics: Repaired ${issues.length} issue(s)`);
+    return issues;
+  });
+}
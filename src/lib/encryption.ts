@@ -0,0 +1,216 @@
+/**
+ * Encrypted Export
+ *
+ * Wraps an export in a passphrase-protected envelope so backups can be kept
+ * in shared drives without leaking harpoon and workspace URLs.
+ *
+ * - PBKDF2-SHA-256 derives 512 bits from the passphrase and a random salt
+ * - The first half is the AES-256-GCM key
+ * - The second half is hashed into a verifier, so a wrong passphrase can be
+ *   reported as such instead of as a corrupted file
+ * - The plaintext header is authenticated along with the ciphertext
+ *
+ * Uses only WebCrypto - nothing leaves the browser.
+ */
+
+import type { EncryptedExport, VersionedStorageData } from './types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Envelope format marker and the version this build writes
+ */
+const ENVELOPE_FORMAT = 'hypertabs-encrypted';
+const ENVELOPE_VERSION = 1;
+
+/**
+ * PBKDF2 iteration count (OWASP recommendation for PBKDF2-SHA-256)
+ */
+const KDF_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Minimum passphrase length accepted for new exports
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Byte array type accepted by WebCrypto
+ */
+type Bytes = ReturnType<typeof fromBase64>;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Serializes the plaintext header used as additional authenticated data
+ */
+function headerBytes(envelope: Pick<EncryptedExport, 'format' | 'version' | 'kdf' | 'cipher'>) {
+  const { format, version, kdf, cipher } = envelope;
+  return new TextEncoder().encode(JSON.stringify({ format, version, kdf, cipher }));
+}
+
+/**
+ * Derives the AES key and the passphrase verifier
+ */
+async function deriveKeys(passphrase: string, salt: BufferSource, iterations: number) {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      baseKey,
+      512
+    )
+  );
+
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  const check = new Uint8Array(await crypto.subtle.digest('SHA-256', bits.slice(32)));
+
+  return { key, check };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Checks whether parsed JSON is an encrypted export envelope
+ *
+ * @param value - Parsed JSON from an import file
+ */
+export function isEncryptedExport(value: unknown): value is EncryptedExport {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { format?: unknown }).format === ENVELOPE_FORMAT
+  );
+}
+
+/**
+ * Encrypts export data with a passphrase
+ *
+ * @param data - Data from getAll()
+ * @param passphrase - User passphrase
+ * @returns The encrypted envelope, ready to be written as JSON
+ */
+export async function encryptExport(
+  data: VersionedStorageData,
+  passphrase: string
+): Promise<EncryptedExport> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header = {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: KDF_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+  } as const;
+
+  const { key, check } = await deriveKeys(passphrase, salt, KDF_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    key,
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+
+  return {
+    ...header,
+    check: toBase64(check),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypts an encrypted export
+ *
+ * @param envelope - Parsed encrypted export file
+ * @param passphrase - User passphrase
+ * @returns The original export data
+ * @throws With a user-facing message for wrong passphrases, unsupported
+ *         versions and corrupted or tampered files
+ */
+export async function decryptExport(
+  envelope: EncryptedExport,
+  passphrase: string
+): Promise<VersionedStorageData> {
+  if (envelope.version !== ENVELOPE_VERSION) {
+    throw new Error(
+      `Encrypted file uses format version ${envelope.version}, which this version of HyperTabs can't read`
+    );
+  }
+
+  let salt: Bytes;
+  let iv: Bytes;
+  let check: Bytes;
+  let ciphertext: Bytes;
+  try {
+    salt = fromBase64(envelope.kdf.salt);
+    iv = fromBase64(envelope.cipher.iv);
+    check = fromBase64(envelope.check);
+    ciphertext = fromBase64(envelope.data);
+  } catch {
+    throw new Error('Encrypted file is corrupted (malformed header or data)');
+  }
+
+  const iterations = envelope.kdf.iterations;
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > 10_000_000 || iv.length !== IV_BYTES) {
+    throw new Error('Encrypted file is corrupted (invalid encryption parameters)');
+  }
+
+  const derived = await deriveKeys(passphrase, salt, iterations);
+  if (toBase64(derived.check) !== toBase64(check)) {
+    throw new Error('Wrong passphrase');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: headerBytes(envelope) },
+      derived.key,
+      ciphertext
+    );
+  } catch {
+    throw new Error('Encrypted file is corrupted or has been modified');
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext)) as VersionedStorageData;
+  } catch {
+    throw new Error('Encrypted file is corrupted (decrypted data is not valid JSON)');
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Frecency - How Often and How Recently Pages Are Used
+ *
+ * Keeps a score per URL that grows with every visit and halves every
+ * week without one, so a page used twenty times a day outranks one opened
+ * once, and old habits fade. Visits are recorded by the service worker:
+ * picking a Telescope result, jumping to a harpoon slot and activating a
+ * tab, each with its own weight.
+ *
+ * Telescope blends the scores with its fuzzy match score (see telescope.ts);
+ * how much is a setting. Scores live in chrome.storage.local and never
+ * leave the device.
+ */
+
+import type { FrecencyEntry, FrecencyEvent, FrecencyRanking } from './types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Storage key for the scores
+ */
+const FRECENCY_KEY = 'frecency';
+
+/**
+ * What a single visit adds to a page's score, by how it happened
+ * Deliberate picks count for more than passing through a tab.
+ */
+const EVENT_WEIGHTS: Record<FrecencyEvent, number> = {
+  select: 1,
+  harpoon: 1,
+  activate: 0.25,
+};
+
+/**
+ * Time for a score to decay to half, in ms
+ */
+const HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Score at which a page counts as halfway to "used all the time"
+ * See normalizeFrecency().
+ */
+const SATURATION_SCORE = 5;
+
+/**
+ * Maximum number of pages remembered - the lowest scores are dropped first
+ */
+const MAX_FRECENCY_ENTRIES = 2000;
+
+/**
+ * Scores below this are forgotten
+ */
+const MIN_SCORE = 0.01;
+
+/**
+ * Ranking that leaves the fuzzy order alone
+ */
+export const NO_FRECENCY: FrecencyRanking = { scores: {}, blend: 0 };
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Pending changes, chained so visits apply in the order they arrived */
+let queue: Promise<void> = Promise.resolve();
+
+/** Whether the event listeners have been registered */
+let started = false;
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Gets an entry's score as of a given time
+ */
+function decayedScore(entry: FrecencyEntry, now: number): number {
+  return entry.score * Math.pow(0.5, (now - entry.updatedAt) / HALF_LIFE_MS);
+}
+
+/**
+ * Maps a score onto 0..1: 0 for never used, approaching 1 for pages used
+ * all the time
+ *
+ * @param score - A score from getFrecencyScores()
+ */
+export function normalizeFrecency(score: number): number {
+  return score / (score + SATURATION_SCORE);
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Reads the stored entries, keyed by URL
+ */
+async function readEntries(): Promise<Record<string, FrecencyEntry>> {
+  const { [FRECENCY_KEY]: entries } = await chrome.storage.local.get(FRECENCY_KEY);
+  return (entries as Record<string, FrecencyEntry> | undefined) ?? {};
+}
+
+/**
+ * Gets the current score of every remembered page
+ *
+ * @returns Scores keyed by URL
+ */
+export async function getFrecencyScores(): Promise<Record<string, number>> {
+  const entries = await readEntries();
+  const now = Date.now();
+  const scores: Record<string, number> = {};
+  for (const [url, entry] of Object.entries(entries)) {
+    scores[url] = decayedScore(entry, now);
+  }
+  return scores;
+}
+
+/**
+ * Queues a change to the stored entries
+ */
+function enqueue(change: (entries: Record<string, FrecencyEntry>) => Record<string, FrecencyEntry>): void {
+  queue = queue
+    .then(async () => {
+      const entries = await readEntries();
+      await chrome.storage.local.set({ [FRECENCY_KEY]: change(entries) });
+    })
+    .catch((error) => {
+      console.error('Frecency: Failed to update scores:', error);
+    });
+}
+
+/**
+ * Drops faded entries, and the lowest ones once there are too many
+ */
+function prune(entries: Record<string, FrecencyEntry>, now: number): Record<string, FrecencyEntry> {
+  const kept = Object.entries(entries)
+    .map(([url, entry]) => ({ url, entry, score: decayedScore(entry, now) }))
+    .filter(({ score }) => score >= MIN_SCORE);
+
+  if (kept.length > MAX_FRECENCY_ENTRIES) {
+    kept.sort((a, b) => b.score - a.score);
+    kept.length = MAX_FRECENCY_ENTRIES;
+  }
+  return Object.fromEntries(kept.map(({ url, entry }) => [url, entry]));
+}
+
+/**
+ * Records a visit to a page
+ *
+ * @param url - URL of the page
+ * @param event - How the page was visited
+ */
+export function recordVisit(url: string | undefined, event: FrecencyEvent): void {
+  // Internal pages (new tab, settings) aren't worth ranking
+  if (!url || !/^(https?|file):/.test(url)) return;
+
+  enqueue((entries) => {
+    const now = Date.now();
+    const previous = entries[url];
+    const score = (previous ? decayedScore(previous, now) : 0) + EVENT_WEIGHTS[event];
+    const next = { ...entries, [url]: { score, updatedAt: now } };
+    // Only a new page can push the store over its limit
+    return previous ? next : prune(next, now);
+  });
+}
+
+/**
+ * Forgets all scores
+ * Queued behind visits still being recorded, so none of them survive it.
+ */
+export async function resetFrecency(): Promise<void> {
+  enqueue(() => ({}));
+  await queue;
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+function handleTabActivated(activeInfo: chrome.tabs.OnActivatedInfo): void {
+  chrome.tabs
+    .get(activeInfo.tabId)
+    .then((tab) => recordVisit(tab.url, 'activate'))
+    .catch(() => {
+      // The tab closed before we could look it up
+    });
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Starts recording tab activations
+ * Call once, synchronously, at the top level of the service worker so the
+ * listener is in place before events are dispatched to a waking worker.
+ * Picks and harpoon jumps are recorded where they happen.
+ */
+export function startFrecencyTracking(): void {
+  if (started) return;
+  started = true;
+
+  chrome.tabs.onActivated.addListener(handleTabActivated);
+}
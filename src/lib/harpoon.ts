@@ -6,21 +6,42 @@
  * 
  * Key features:
  * - Mark any tab to a slot (1-10)
+ * - Several named lists of slots, one active at a time; workspaces can own a list
  * - Jump to harpooned tabs instantly with keyboard shortcuts
+ * - Cycle through filled slots, or toggle back to the last slot jumped from
  * - Cross-window support (finds tabs in any window)
  * - Persistence: remembers harpooned tabs across browser sessions
- * - Auto-reopen: if a harpooned tab is closed, reopens it from saved URL
+ * - Auto-reopen: if a harpooned tab is closed, reopens it from saved URL,
+ *   back in its window, position and tab group
+ * - Per-slot URL matching (see urlMatch.ts), so a slot keeps finding its
+ *   page after the query string or hash changes
+ * - Per-slot follow policy: a slot's URL can track its tab's navigation
  */
 
-import type { HarpoonSlot, HarpoonState } from './types';
+import type {
+  HarpoonJumpRecord,
+  HarpoonList,
+  HarpoonSlot,
+  HarpoonState,
+  SlotEdit,
+  SlotFollowPolicy,
+  TabPlacement,
+  UrlMatchMode,
+  ValidationIssue,
+} from './types';
 import { get, update } from './storage';
+import { takeSnapshot } from './snapshots';
+import { journaledUpdate } from './history';
+import { recordVisit } from './frecency';
 import {
   getActiveTab,
   getTabById,
   findTabByUrl,
   switchToTab,
-  createTab,
+  getTabPlacement,
+  reopenTab,
 } from './tabs';
+import { matchesUrl, findMatchIndex, matchRuleKey } from './urlMatch';
 
 // =============================================================================
 // STATE MANAGEMENT
@@ -38,16 +59,246 @@ export async function getHarpoonState(): Promise<HarpoonState> {
  * 
  * @param maxSlots - New maximum (1-10)
  */
-export async function setMaxSlots(maxSlots: number): Promise<void> {
+export async function setMaxSlots(maxSlots: number): Promise<HarpoonState> {
   // Clamp to valid range
   const clampedMax = Math.max(1, Math.min(10, maxSlots));
   
-  await update('harpoon', (state) => ({
+  return await update('harpoon', (state) => ({
     ...state,
     maxSlots: clampedMax,
-    // Trim slots array if needed
-    slots: state.slots.slice(0, clampedMax),
+    // Trim every list's slots array if needed
+    lists: state.lists.map((list) => ({ ...list, slots: list.slots.slice(0, clampedMax) })),
+  }));
+}
+
+// =============================================================================
+// LIST HELPERS
+// =============================================================================
+
+/**
+ * Gets the active harpoon list
+ * Falls back to the first list if the active ID is stale
+ * 
+ * @param state - Harpoon state
+ * @returns The list slot operations act on
+ */
+export function getActiveList(state: HarpoonState): HarpoonList {
+  return (
+    state.lists.find((list) => list.id === state.activeListId) ??
+    state.lists[0] ?? { id: state.activeListId, name: 'Default', slots: [] }
+  );
+}
+
+/**
+ * Gets the slots of the active harpoon list
+ * 
+ * @param state - Harpoon state
+ */
+export function getActiveSlots(state: HarpoonState): (HarpoonSlot | null)[] {
+  return getActiveList(state).slots;
+}
+
+/**
+ * Returns a copy of the state with one list's slots replaced
+ * 
+ * @param state - Harpoon state
+ * @param listId - ID of the list to change
+ * @param slots - New slots for that list
+ */
+export function withListSlots(
+  state: HarpoonState,
+  listId: string,
+  slots: (HarpoonSlot | null)[]
+): HarpoonState {
+  if (!state.lists.some((list) => list.id === listId)) {
+    // Only reachable through the getActiveList() fallback for an empty state
+    return { ...state, lists: [...state.lists, { ...getActiveList(state), slots }] };
+  }
+  return {
+    ...state,
+    lists: state.lists.map((list) => (list.id === listId ? { ...list, slots } : list)),
+  };
+}
+
+/**
+ * Returns a copy of the state with the active list's slots replaced
+ * 
+ * @param state - Harpoon state
+ * @param slots - New slots for the active list
+ */
+export function withActiveSlots(
+  state: HarpoonState,
+  slots: (HarpoonSlot | null)[]
+): HarpoonState {
+  return withListSlots(state, getActiveList(state).id, slots);
+}
+
+/**
+ * ID of the global list (the one DEFAULT_HARPOON_STATE and the v2 migration
+ * create)
+ */
+export const GLOBAL_LIST_ID = 'default';
+
+/**
+ * Gets the global harpoon list, used by workspaces that don't own a list
+ * and by the "All" view
+ * 
+ * @param state - Harpoon state
+ */
+export function getGlobalList(state: HarpoonState): HarpoonList {
+  return state.lists.find((list) => list.id === GLOBAL_LIST_ID) ?? state.lists[0] ?? getActiveList(state);
+}
+
+// =============================================================================
+// LIST MANAGEMENT
+// =============================================================================
+
+/**
+ * Generates a unique list ID
+ */
+function generateListId(): string {
+  return `list_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Creates a new, empty harpoon list
+ * 
+ * @param name - Name for the list
+ * @returns The created list
+ */
+export async function createList(name: string): Promise<HarpoonList> {
+  let list: HarpoonList | undefined;
+  
+  await journaledUpdate(`Create harpoon list "${name}"`, 'harpoon', (state) => {
+    list = { id: generateListId(), name, slots: Array(state.maxSlots).fill(null) };
+    return { ...state, lists: [...state.lists, list] };
+  });
+  
+  console.log(`Harpoon: Created list "${name}"`);
+  return list!;
+}
+
+/**
+ * Renames a harpoon list
+ * 
+ * @param listId - ID of list to rename
+ * @param newName - New name for the list
+ * @returns The harpoon state after the write
+ */
+export async function renameList(listId: string, newName: string): Promise<HarpoonState> {
+  const state = await journaledUpdate(`Rename harpoon list to "${newName}"`, 'harpoon', (state) => ({
+    ...state,
+    lists: state.lists.map((list) => (list.id === listId ? { ...list, name: newName } : list)),
   }));
+  
+  console.log(`Harpoon: Renamed list to "${newName}"`);
+  return state;
+}
+
+/**
+ * Deletes a harpoon list
+ * The global list can't be deleted. If the active list is deleted, the next
+ * one becomes active. Workspaces that owned the list fall back to the
+ * global one. A snapshot is taken first so the list can
+ * be restored.
+ * 
+ * @param listId - ID of list to delete
+ * @returns The harpoon state after the write
+ */
+export async function deleteList(listId: string): Promise<HarpoonState> {
+  await takeSnapshot('harpoon-list-delete');
+  
+  const state = await journaledUpdate('Delete harpoon list', 'harpoon', (state) => {
+    const index = state.lists.findIndex((list) => list.id === listId);
+    if (index === -1) return state;
+    
+    if (listId === getGlobalList(state).id) {
+      console.warn('Harpoon: Cannot delete the global list');
+      return state;
+    }
+    
+    const lists = state.lists.filter((list) => list.id !== listId);
+    const activeListId =
+      state.activeListId === listId
+        ? lists[Math.min(index, lists.length - 1)]!.id
+        : state.activeListId;
+    
+    return { ...state, lists, activeListId };
+  });
+  
+  console.log(`Harpoon: Deleted list ${listId}`);
+  return state;
+}
+
+/**
+ * Makes a list the active one
+ * 
+ * @param listId - ID of list to activate
+ * @returns The harpoon state after the write
+ */
+export async function switchList(listId: string): Promise<HarpoonState> {
+  const state = await update('harpoon', (state) => {
+    if (state.activeListId === listId || !state.lists.some((list) => list.id === listId)) {
+      return state;
+    }
+    return { ...state, activeListId: listId };
+  });
+  
+  console.log(`Harpoon: Switched to list "${getActiveList(state).name}"`);
+  return state;
+}
+
+/**
+ * Activates the list a workspace owns, or the global list if it owns none
+ * (or its list no longer exists)
+ * 
+ * @param listId - The workspace's harpoonListId
+ * @returns The harpoon state after the write
+ */
+export async function activateWorkspaceList(listId: string | undefined): Promise<HarpoonState> {
+  const state = await update('harpoon', (state) => {
+    const owned = listId !== undefined && state.lists.some((list) => list.id === listId);
+    const activeListId = owned ? listId : getGlobalList(state).id;
+    return state.activeListId === activeListId ? state : { ...state, activeListId };
+  });
+  
+  console.log(`Harpoon: Activated list "${getActiveList(state).name}"`);
+  return state;
+}
+
+/**
+ * Activates the list `step` positions away from the active one, wrapping
+ * around at either end
+ */
+async function cycleList(step: number): Promise<HarpoonState> {
+  const state = await update('harpoon', (state) => {
+    if (state.lists.length < 2) return state;
+    
+    const currentIndex = state.lists.findIndex((list) => list.id === state.activeListId);
+    const nextIndex = (Math.max(currentIndex, 0) + step + state.lists.length) % state.lists.length;
+    return { ...state, activeListId: state.lists[nextIndex]!.id };
+  });
+  
+  console.log(`Harpoon: Switched to list "${getActiveList(state).name}"`);
+  return state;
+}
+
+/**
+ * Switches to the next harpoon list
+ * 
+ * @returns The harpoon state after the write
+ */
+export async function switchToNextList(): Promise<HarpoonState> {
+  return await cycleList(1);
+}
+
+/**
+ * Switches to the previous harpoon list
+ * 
+ * @returns The harpoon state after the write
+ */
+export async function switchToPrevList(): Promise<HarpoonState> {
+  return await cycleList(-1);
 }
 
 // =============================================================================
@@ -55,16 +306,19 @@ export async function setMaxSlots(maxSlots: number): Promise<void> {
 // =============================================================================
 
 /**
- * Marks a tab to a specific harpoon slot
+ * Whether a URL is a browser or extension page, which can't be harpooned
+ */
+function isInternalUrl(url: string): boolean {
+  return url.startsWith('chrome://') || url.startsWith('chrome-extension://');
+}
+
+/**
+ * Resolves the tab to mark and checks that it can be harpooned
  * 
- * @param slotId - Slot number (1-indexed, 1-10)
  * @param tabId - Optional tab ID. If not provided, uses current active tab
- * @returns The created HarpoonSlot, or null if failed
+ * @returns The tab, or undefined if it can't be marked
  */
-export async function markToSlot(
-  slotId: number,
-  tabId?: number
-): Promise<HarpoonSlot | null> {
+async function getMarkableTab(tabId?: number): Promise<chrome.tabs.Tab | undefined> {
   // Get the tab to mark
   let tab: chrome.tabs.Tab | undefined;
   
@@ -77,63 +331,108 @@ export async function markToSlot(
   // Validate tab
   if (!tab || !tab.id || !tab.url) {
     console.error('Harpoon: Cannot mark invalid tab');
-    return null;
+    return undefined;
   }
   
   // Don't allow marking chrome:// or extension pages
-  if (tab.url.startsWith('chrome://') || tab.url.startsWith('chrome-extension://')) {
+  if (isInternalUrl(tab.url)) {
     console.error('Harpoon: Cannot mark browser internal pages');
-    return null;
+    return undefined;
   }
   
-  // Create the harpoon slot
-  const slot: HarpoonSlot = {
+  return tab;
+}
+
+/**
+ * Creates a harpoon slot for a tab
+ */
+function createSlot(slotId: number, tab: chrome.tabs.Tab, placement: TabPlacement): HarpoonSlot {
+  return {
     id: slotId,
     tabId: tab.id,
-    url: tab.url,
+    url: tab.url!,
     title: tab.title || 'Untitled',
     favicon: tab.favIconUrl,
-    windowId: tab.windowId,
+    ...placement,
   };
+}
+
+/**
+ * Returns a copy of the slots array with one slot replaced
+ * Grows the array if needed (slots are 1-indexed)
+ */
+function withSlot(
+  slots: (HarpoonSlot | null)[],
+  slotId: number,
+  slot: HarpoonSlot | null
+): (HarpoonSlot | null)[] {
+  const newSlots = [...slots];
+  while (newSlots.length < slotId) {
+    newSlots.push(null);
+  }
+  newSlots[slotId - 1] = slot;
+  return newSlots;
+}
+
+/**
+ * Marks a tab to a specific harpoon slot
+ * 
+ * @param slotId - Slot number (1-indexed, 1-10)
+ * @param tabId - Optional tab ID. If not provided, uses current active tab
+ * @returns The slot as stored after the write, or null if failed
+ */
+export async function markToSlot(
+  slotId: number,
+  tabId?: number
+): Promise<HarpoonSlot | null> {
+  const tab = await getMarkableTab(tabId);
+  if (!tab) return null;
+  
+  const slot = createSlot(slotId, tab, await getTabPlacement(tab));
   
   // Update storage
-  await update('harpoon', (state) => {
-    const newSlots = [...state.slots];
-    // Ensure array is large enough (slots are 1-indexed)
-    while (newSlots.length < slotId) {
-      newSlots.push(null);
-    }
-    // Set the slot (converting from 1-indexed to 0-indexed)
-    newSlots[slotId - 1] = slot;
-    
-    return {
-      ...state,
-      slots: newSlots,
-    };
-  });
+  const state = await journaledUpdate(`Mark slot ${slotId}`, 'harpoon', (state) =>
+    withActiveSlots(state, withSlot(getActiveSlots(state), slotId, slot))
+  );
   
   console.log(`Harpoon: Marked tab "${slot.title}" to slot ${slotId}`);
-  return slot;
+  return getActiveSlots(state)[slotId - 1] ?? null;
 }
 
 /**
- * Marks the current active tab to the next available slot
+ * Marks a tab to the next available slot
+ * The free slot is picked under the storage lock, so two concurrent calls
+ * never land in the same slot
  * 
+ * @param tabId - Optional tab ID. If not provided, uses current active tab
  * @returns The slot number used, or null if all slots are full
  */
-export async function markToNextAvailable(): Promise<number | null> {
-  const state = await getHarpoonState();
+export async function markToNextAvailable(tabId?: number): Promise<number | null> {
+  const tab = await getMarkableTab(tabId);
+  if (!tab) return null;
+  
+  const placement = await getTabPlacement(tab);
+  let usedSlotId: number | null = null;
   
-  // Find first empty slot
-  for (let i = 0; i < state.maxSlots; i++) {
-    if (!state.slots[i]) {
-      await markToSlot(i + 1); // Convert to 1-indexed
-      return i + 1;
+  await journaledUpdate('Mark next slot', 'harpoon', (state) => {
+    const slots = getActiveSlots(state);
+    // Find first empty slot
+    for (let i = 0; i < state.maxSlots; i++) {
+      if (!slots[i]) {
+        usedSlotId = i + 1; // Convert to 1-indexed
+        return withActiveSlots(state, withSlot(slots, usedSlotId, createSlot(usedSlotId, tab, placement)));
+      }
     }
-  }
+    usedSlotId = null;
+    return state;
+  });
   
-  console.log('Harpoon: All slots are full');
-  return null;
+  if (usedSlotId === null) {
+    console.log('Harpoon: All slots are full');
+  } else {
+    console.log(`Harpoon: Marked tab "${tab.title}" to slot ${usedSlotId}`);
+  }
+  return usedSlotId;
 }
 
 // =============================================================================
@@ -144,60 +443,86 @@ export async function markToNextAvailable(): Promise<number | null> {
  * Removes a tab from a harpoon slot
  * 
  * @param slotId - Slot number (1-indexed)
+ * @returns The harpoon state after the write
  */
-export async function removeFromSlot(slotId: number): Promise<void> {
-  await update('harpoon', (state) => {
-    const newSlots = [...state.slots];
+export async function removeFromSlot(slotId: number): Promise<HarpoonState> {
+  const state = await journaledUpdate(`Remove slot ${slotId}`, 'harpoon', (state) => {
+    const newSlots = [...getActiveSlots(state)];
     // Set to null (converting from 1-indexed to 0-indexed)
     if (slotId > 0 && slotId <= newSlots.length) {
       newSlots[slotId - 1] = null;
     }
-    return {
-      ...state,
-      slots: newSlots,
-    };
+    return withActiveSlots(state, newSlots);
   });
   
   console.log(`Harpoon: Removed tab from slot ${slotId}`);
+  return state;
 }
 
 /**
  * Removes a tab from harpoon by its URL
- * Useful when a tab is closed and we want to clean up
+ * Useful when a tab is closed and we want to clean up. Every slot whose
+ * match mode covers the URL is cleared.
  * 
  * @param url - The URL to remove
+ * @returns The harpoon state after the write
  */
-export async function removeByUrl(url: string): Promise<void> {
-  await update('harpoon', (state) => {
-    const newSlots = state.slots.map((slot) => {
-      if (slot && slot.url === url) {
+export async function removeByUrl(url: string): Promise<HarpoonState> {
+  return await update('harpoon', (state) => {
+    const newSlots = getActiveSlots(state).map((slot) => {
+      if (slot && matchesUrl(slot, url)) {
         return null;
       }
       return slot;
     });
-    return {
-      ...state,
-      slots: newSlots,
-    };
+    return withActiveSlots(state, newSlots);
   });
 }
 
 /**
- * Clears all harpoon slots
+ * Clears all slots of the active harpoon list
+ * A snapshot is taken first so the slots can be restored
+ * 
+ * @returns The harpoon state after the write
  */
-export async function clearAll(): Promise<void> {
-  await update('harpoon', (state) => ({
-    ...state,
-    slots: Array(state.maxSlots).fill(null),
-  }));
+export async function clearAll(): Promise<HarpoonState> {
+  await takeSnapshot('harpoon-clear');
+  
+  const state = await journaledUpdate('Clear harpoon', 'harpoon', (state) =>
+    withActiveSlots(state, Array(state.maxSlots).fill(null))
+  );
   
   console.log('Harpoon: Cleared all slots');
+  return state;
 }
 
 // =============================================================================
 // JUMPING TO TABS
 // =============================================================================
 
+/**
+ * Points a slot at a (re)found tab
+ * Targets the list the slot was read from, even if another list has been
+ * activated since
+ */
+function withSlotTab(
+  state: HarpoonState,
+  listId: string,
+  slotId: number,
+  tab: chrome.tabs.Tab,
+  placement: TabPlacement
+): HarpoonState {
+  const list = state.lists.find((l) => l.id === listId);
+  const existingSlot = list?.slots[slotId - 1];
+  if (!list || !existingSlot) return state;
+  
+  return withListSlots(
+    state,
+    listId,
+    withSlot(list.slots, slotId, { ...existingSlot, tabId: tab.id, ...placement })
+  );
+}
+
 /**
  * Jumps to a harpooned tab in a specific slot
  * If the tab was closed, reopens it from the saved URL
@@ -207,42 +532,39 @@ export async function clearAll(): Promise<void> {
  */
 export async function jumpToSlot(slotId: number): Promise<boolean> {
   const state = await getHarpoonState();
-  const slot = state.slots[slotId - 1]; // Convert to 0-indexed
+  const listId = getActiveList(state).id;
+  const slot = getActiveSlots(state)[slotId - 1]; // Convert to 0-indexed
   
   if (!slot) {
     console.log(`Harpoon: Slot ${slotId} is empty`);
     return false;
   }
   
+  const from = await findCurrentSlot(state);
+  
   // First, try to find the tab by its ID
   if (slot.tabId) {
     const tab = await getTabById(slot.tabId);
     if (tab) {
       // Tab still exists, switch to it
       await switchToTab(tab.id!, tab.windowId);
+      await recordJump(listId, from, slotId);
+      recordVisit(slot.url, 'harpoon');
       console.log(`Harpoon: Jumped to slot ${slotId} (tab ID ${slot.tabId})`);
       return true;
     }
   }
   
-  // Tab ID is stale, try to find by URL
-  const tabByUrl = await findTabByUrl(slot.url);
+  // Tab ID is stale, try to find by URL (using the slot's match mode)
+  const tabByUrl = await findTabByUrl(slot);
   if (tabByUrl && tabByUrl.id) {
     // Found the tab by URL, update our stored tab ID and switch
-    await update('harpoon', (state) => {
-      const newSlots = [...state.slots];
-      const existingSlot = newSlots[slotId - 1];
-      if (existingSlot) {
-        newSlots[slotId - 1] = {
-          ...existingSlot,
-          tabId: tabByUrl.id,
-          windowId: tabByUrl.windowId,
-        };
-      }
-      return { ...state, slots: newSlots };
-    });
+    const placement = await getTabPlacement(tabByUrl);
+    await update('harpoon', (state) => withSlotTab(state, listId, slotId, tabByUrl, placement));
     
     await switchToTab(tabByUrl.id, tabByUrl.windowId);
+    await recordJump(listId, from, slotId);
+    recordVisit(slot.url, 'harpoon');
     console.log(`Harpoon: Jumped to slot ${slotId} (found by URL)`);
     return true;
   }
@@ -250,25 +572,17 @@ export async function jumpToSlot(slotId: number): Promise<boolean> {
   // Tab doesn't exist, check if we should reopen it
   const settings = await get('settings');
   if (settings.harpoonReopenClosed) {
-    // Reopen the tab
-    const newTab = await createTab(slot.url);
+    // Reopen the tab where it was
+    const newTab = await reopenTab(slot, slot, settings.harpoonReopenFallback);
     
     // Update the stored tab ID
     if (newTab.id) {
-      await update('harpoon', (state) => {
-        const newSlots = [...state.slots];
-        const existingSlot = newSlots[slotId - 1];
-        if (existingSlot) {
-          newSlots[slotId - 1] = {
-            ...existingSlot,
-            tabId: newTab.id,
-            windowId: newTab.windowId,
-          };
-        }
-        return { ...state, slots: newSlots };
-      });
+      const placement = await getTabPlacement(newTab);
+      await update('harpoon', (state) => withSlotTab(state, listId, slotId, newTab, placement));
     }
     
+    await recordJump(listId, from, slotId);
+    recordVisit(slot.url, 'harpoon');
     console.log(`Harpoon: Reopened tab for slot ${slotId}`);
     return true;
   }
@@ -277,6 +591,127 @@ export async function jumpToSlot(slotId: number): Promise<boolean> {
   return false;
 }
 
+// =============================================================================
+// SLOT CYCLING
+// =============================================================================
+
+/**
+ * Session storage key for the last two slots jumped between
+ */
+const LAST_JUMP_KEY = 'harpoonLastJump';
+
+/**
+ * Finds the slot of the active list that holds the active tab
+ * By tab ID first, then by URL (using each slot's match mode).
+ * 
+ * @param state - The harpoon state
+ * @returns The slot number (1-indexed), or undefined
+ */
+async function findCurrentSlot(state: HarpoonState): Promise<number | undefined> {
+  const tab = await getActiveTab();
+  if (!tab) return undefined;
+  
+  const slots = getActiveSlots(state);
+  const index = slots.findIndex((slot) => slot?.tabId !== undefined && slot.tabId === tab.id);
+  if (index !== -1) return index + 1;
+  return tab.url ? findSlotForUrl(slots, tab.url) : undefined;
+}
+
+/**
+ * Reads the last jump record from session storage
+ */
+async function getJumpRecord(): Promise<HarpoonJumpRecord | undefined> {
+  const { [LAST_JUMP_KEY]: record } = await chrome.storage.session.get(LAST_JUMP_KEY);
+  return record as HarpoonJumpRecord | undefined;
+}
+
+/**
+ * Records a jump, for jumpToLastSlot()
+ * The slot jumped from is the active tab's slot; from a tab outside the
+ * list it's the slot jumped to last time.
+ * 
+ * @param listId - The list jumped in
+ * @param from - Slot holding the tab jumped from, if any
+ * @param to - Slot jumped to
+ */
+async function recordJump(listId: string, from: number | undefined, to: number): Promise<void> {
+  const stored = await getJumpRecord();
+  const last = stored?.listId === listId ? stored : undefined;
+  const candidate = from ?? last?.current;
+  const record: HarpoonJumpRecord = {
+    listId,
+    current: to,
+    previous: candidate !== undefined && candidate !== to ? candidate : last?.previous ?? null,
+  };
+  await chrome.storage.session.set({ [LAST_JUMP_KEY]: record });
+}
+
+/**
+ * Jumps to the filled slot `step` places from the active tab's slot
+ * Wraps around; from a tab outside the list, goes to the first (or last)
+ * filled slot.
+ */
+async function cycleSlot(step: number): Promise<boolean> {
+  const state = await getHarpoonState();
+  const filled = getActiveSlots(state).flatMap((slot, index) => (slot ? [index + 1] : []));
+  
+  if (filled.length === 0) {
+    console.log('Harpoon: No filled slots to cycle through');
+    return false;
+  }
+  
+  const from = await findCurrentSlot(state);
+  const position = from === undefined ? -1 : filled.indexOf(from);
+  const nextIndex = position === -1
+    ? (step > 0 ? 0 : filled.length - 1)
+    : (position + step + filled.length) % filled.length;
+  
+  return await jumpToSlot(filled[nextIndex]!);
+}
+
+/**
+ * Jumps to the next filled slot after the active tab's slot
+ * 
+ * @returns True if successfully jumped
+ */
+export async function jumpToNextSlot(): Promise<boolean> {
+  return await cycleSlot(1);
+}
+
+/**
+ * Jumps to the previous filled slot before the active tab's slot
+ * 
+ * @returns True if successfully jumped
+ */
+export async function jumpToPrevSlot(): Promise<boolean> {
+  return await cycleSlot(-1);
+}
+
+/**
+ * Toggles between the last two slots jumped between, like vim's Ctrl-^
+ * From a tab outside the list, goes back to the slot jumped to last.
+ * 
+ * @returns True if successfully jumped
+ */
+export async function jumpToLastSlot(): Promise<boolean> {
+  const state = await getHarpoonState();
+  const record = await getJumpRecord();
+  
+  if (!record || record.listId !== getActiveList(state).id) {
+    console.log('Harpoon: No previous jump in this list');
+    return false;
+  }
+  
+  const from = await findCurrentSlot(state);
+  const target = from === record.current ? record.previous : record.current;
+  if (target === null) {
+    console.log('Harpoon: No previous slot to toggle to');
+    return false;
+  }
+  
+  return await jumpToSlot(target);
+}
+
 // =============================================================================
 // REORDERING
 // =============================================================================
@@ -286,10 +721,11 @@ export async function jumpToSlot(slotId: number): Promise<boolean> {
  * 
  * @param slotA - First slot number (1-indexed)
  * @param slotB - Second slot number (1-indexed)
+ * @returns The harpoon state after the write
  */
-export async function swapSlots(slotA: number, slotB: number): Promise<void> {
-  await update('harpoon', (state) => {
-    const newSlots: (HarpoonSlot | null)[] = [...state.slots];
+export async function swapSlots(slotA: number, slotB: number): Promise<HarpoonState> {
+  const state = await journaledUpdate(`Swap slots ${slotA} and ${slotB}`, 'harpoon', (state) => {
+    const newSlots: (HarpoonSlot | null)[] = [...getActiveSlots(state)];
     const indexA = slotA - 1;
     const indexB = slotB - 1;
     
@@ -306,10 +742,11 @@ export async function swapSlots(slotA: number, slotB: number): Promise<void> {
       newSlots[indexB] = { ...newSlots[indexB]!, id: slotB };
     }
     
-    return { ...state, slots: newSlots };
+    return withActiveSlots(state, newSlots);
   });
   
   console.log(`Harpoon: Swapped slots ${slotA} and ${slotB}`);
+  return state;
 }
 
 /**
@@ -317,12 +754,13 @@ export async function swapSlots(slotA: number, slotB: number): Promise<void> {
  * 
  * @param fromSlot - Source slot number (1-indexed)
  * @param toSlot - Destination slot number (1-indexed)
+ * @returns The harpoon state after the write
  */
-export async function moveSlot(fromSlot: number, toSlot: number): Promise<void> {
-  if (fromSlot === toSlot) return;
+export async function moveSlot(fromSlot: number, toSlot: number): Promise<HarpoonState> {
+  if (fromSlot === toSlot) return await getHarpoonState();
   
-  await update('harpoon', (state) => {
-    const newSlots: (HarpoonSlot | null)[] = [...state.slots];
+  const state = await journaledUpdate(`Move slot ${fromSlot} to ${toSlot}`, 'harpoon', (state) => {
+    const newSlots: (HarpoonSlot | null)[] = [...getActiveSlots(state)];
     const fromIndex = fromSlot - 1;
     const toIndex = toSlot - 1;
     
@@ -341,10 +779,226 @@ export async function moveSlot(fromSlot: number, toSlot: number): Promise<void>
       return null;
     });
     
-    return { ...state, slots: updatedSlots };
+    return withActiveSlots(state, updatedSlots);
   });
   
   console.log(`Harpoon: Moved slot ${fromSlot} to ${toSlot}`);
+  return state;
+}
+
+// =============================================================================
+// SLOT EDITOR
+// =============================================================================
+
+/**
+ * Checks editor lines before they are committed
+ * 
+ * @param lines - Editor lines in slot order, null for an empty slot
+ * @param maxSlots - Number of slots in a list
+ * @returns Problems found, with "Line N" paths; empty if the lines can be saved
+ */
+export function validateSlotEdits(lines: (SlotEdit | null)[], maxSlots: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  // Trailing empty lines don't take up slots
+  const used = lines.reduce((last, line, index) => (line ? index + 1 : last), 0);
+  if (used > maxSlots) {
+    issues.push({ path: 'Lines', message: `only ${maxSlots} slots are available` });
+  }
+  
+  lines.forEach((line, index) => {
+    if (!line) return;
+    const path = `Line ${index + 1}`;
+    let url: URL | null = null;
+    try {
+      url = new URL(line.url);
+    } catch {
+      // Reported below
+    }
+    if (!url) {
+      issues.push({ path, message: 'is not a valid URL' });
+    } else if (isInternalUrl(line.url)) {
+      issues.push({ path, message: 'browser pages can\'t be harpooned' });
+    }
+  });
+  
+  return issues;
+}
+
+/**
+ * Builds a slot from an editor line
+ * A line loaded from a slot keeps that slot's settings (match mode, follow
+ * policy) and, while its URL is unchanged, its tab.
+ */
+function slotFromEdit(line: SlotEdit, slotId: number, source: HarpoonSlot | null | undefined): HarpoonSlot {
+  const title = line.title.trim() || line.url;
+  if (!source) {
+    return { id: slotId, url: line.url, title };
+  }
+  if (source.url === line.url) {
+    return { ...source, id: slotId, title };
+  }
+  const { tabId: _tabId, windowId: _windowId, favicon: _favicon, health: _health, ...settings } = source;
+  return { ...settings, id: slotId, url: line.url, title };
+}
+
+/**
+ * Replaces a list's slots with the editor's lines in one update
+ * The slots each line was loaded from are looked up in the latest state,
+ * so lines moved around behave like moveSlot()/swapSlots() and dropped
+ * lines like removeFromSlot(). Recorded as a single undo step.
+ * 
+ * @param listId - ID of the list that was edited
+ * @param lines - Editor lines in slot order, null for an empty slot
+ * @returns The harpoon state after the write
+ */
+export async function commitSlotEdits(listId: string, lines: (SlotEdit | null)[]): Promise<HarpoonState> {
+  const state = await journaledUpdate('Edit harpoon slots', 'harpoon', (state) => {
+    const list = state.lists.find((list) => list.id === listId);
+    if (!list) {
+      throw new Error('The harpoon list was deleted while editing');
+    }
+    
+    const issues = validateSlotEdits(lines, state.maxSlots);
+    if (issues.length > 0) {
+      throw new Error(`Invalid slot edits: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`);
+    }
+    
+    const slots: (HarpoonSlot | null)[] = [];
+    for (let i = 0; i < state.maxSlots; i++) {
+      const line = lines[i];
+      const source = line?.from !== undefined ? list.slots[line.from - 1] : undefined;
+      slots.push(line ? slotFromEdit(line, i + 1, source) : null);
+    }
+    return withListSlots(state, listId, slots);
+  });
+  
+  console.log(`Harpoon: Saved ${lines.filter(Boolean).length} edited slots`);
+  return state;
+}
+
+// =============================================================================
+// NAVIGATION FOLLOWING
+// =============================================================================
+
+/**
+ * All follow policies with a short label, in the order they are offered
+ */
+export const SLOT_FOLLOW_POLICIES: { policy: SlotFollowPolicy; label: string }[] = [
+  { policy: 'pinned', label: 'Pinned URL' },
+  { policy: 'follow', label: 'Follow tab' },
+  { policy: 'follow-origin', label: 'Follow within site' },
+];
+
+/**
+ * Origin of a URL, or null if it isn't one
+ */
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a slot already records a placement
+ */
+function isSamePlacement(slot: HarpoonSlot, placement: TabPlacement): boolean {
+  return (
+    slot.windowId === placement.windowId &&
+    slot.index === placement.index &&
+    slot.pinned === placement.pinned &&
+    slot.group?.id === placement.group?.id &&
+    slot.group?.title === placement.group?.title &&
+    slot.group?.color === placement.group?.color
+  );
+}
+
+/**
+ * Returns a slot updated for where its tab is now
+ * The URL moves according to the slot's follow policy; title and favicon
+ * refresh whenever the tab still shows the slot's page. The tab's
+ * placement is always recorded, for reopening it in place.
+ */
+function followTab(slot: HarpoonSlot, tab: chrome.tabs.Tab, placement: TabPlacement): HarpoonSlot {
+  const placed = isSamePlacement(slot, placement) ? slot : { ...slot, ...placement };
+  if (!tab.url || isInternalUrl(tab.url)) return placed;
+  
+  const policy = slot.followPolicy ?? 'pinned';
+  const follows =
+    policy === 'follow' ||
+    (policy === 'follow-origin' && getOrigin(tab.url) === getOrigin(slot.url));
+  
+  const url = follows ? tab.url : slot.url;
+  if (url !== tab.url && !matchesUrl(slot, tab.url)) {
+    // The tab has left the slot's page - leave the slot as marked
+    return placed;
+  }
+  
+  const title = tab.title || slot.title;
+  const favicon = tab.favIconUrl || slot.favicon;
+  if (url === slot.url && title === slot.title && favicon === slot.favicon) {
+    return placed;
+  }
+  return { ...placed, url, title, favicon };
+}
+
+/**
+ * Updates every slot bound to a tab after the tab navigated, loaded or moved
+ * Automatic, so not recorded in the undo journal.
+ * 
+ * @param tab - The tab as reported by tabs.onUpdated, or looked up after a move
+ */
+export async function followTabNavigation(tab: chrome.tabs.Tab): Promise<void> {
+  if (tab.id === undefined) return;
+  
+  // Cheap check first - this runs for every tab update in the browser
+  const current = await getHarpoonState();
+  const bound = current.lists.some((list) => list.slots.some((slot) => slot?.tabId === tab.id));
+  if (!bound) return;
+  
+  const placement = await getTabPlacement(tab);
+  let changed = false;
+  await update('harpoon', (state) => {
+    const lists = state.lists.map((list) => {
+      const slots = list.slots.map((slot) =>
+        slot && slot.tabId === tab.id ? followTab(slot, tab, placement) : slot
+      );
+      if (slots.every((slot, index) => slot === list.slots[index])) return list;
+      changed = true;
+      return { ...list, slots };
+    });
+    return changed ? { ...state, lists } : state;
+  });
+  
+  if (changed) {
+    console.log(`Harpoon: Updated slots for tab ${tab.id} after it changed`);
+  }
+}
+
+/**
+ * Sets whether a slot of the active list follows its tab's navigation
+ * 
+ * @param slotId - Slot number (1-indexed)
+ * @param followPolicy - The follow policy
+ * @returns The harpoon state after the write
+ */
+export async function setSlotFollowPolicy(
+  slotId: number,
+  followPolicy: SlotFollowPolicy
+): Promise<HarpoonState> {
+  const state = await journaledUpdate(`Change slot ${slotId} following`, 'harpoon', (state) => {
+    const slot = getActiveSlots(state)[slotId - 1];
+    if (!slot) return state;
+    
+    const { followPolicy: _policy, ...rest } = slot;
+    const updated: HarpoonSlot = followPolicy === 'pinned' ? rest : { ...rest, followPolicy };
+    return withActiveSlots(state, withSlot(getActiveSlots(state), slotId, updated));
+  });
+  
+  console.log(`Harpoon: Slot ${slotId} now uses follow policy ${followPolicy}`);
+  return state;
 }
 
 // =============================================================================
@@ -352,21 +1006,56 @@ export async function moveSlot(fromSlot: number, toSlot: number): Promise<void>
 // =============================================================================
 
 /**
- * Checks if a URL is currently harpooned
+ * Finds the slot of a list that a URL belongs to, by each slot's match mode
+ * 
+ * @param slots - Slots to search
+ * @param url - The URL to check
+ * @returns The slot number (1-indexed), or undefined
+ */
+export function findSlotForUrl(slots: (HarpoonSlot | null)[], url: string): number | undefined {
+  const index = findMatchIndex(slots, url);
+  return index === -1 ? undefined : index + 1; // Convert to 1-indexed
+}
+
+/**
+ * Checks if a URL is harpooned in the active list
  * 
  * @param url - The URL to check
  * @returns The slot number (1-indexed) if harpooned, undefined otherwise
  */
 export async function getSlotForUrl(url: string): Promise<number | undefined> {
-  const state = await getHarpoonState();
-  
-  for (let i = 0; i < state.slots.length; i++) {
-    if (state.slots[i]?.url === url) {
-      return i + 1; // Convert to 1-indexed
-    }
-  }
+  return findSlotForUrl(getActiveSlots(await getHarpoonState()), url);
+}
+
+/**
+ * Sets how a slot of the active list matches open tabs
+ * 
+ * @param slotId - Slot number (1-indexed)
+ * @param matchMode - The match mode
+ * @param matchPattern - Regular expression, used by 'regex' mode only
+ * @returns The harpoon state after the write
+ */
+export async function setSlotMatchMode(
+  slotId: number,
+  matchMode: UrlMatchMode,
+  matchPattern?: string
+): Promise<HarpoonState> {
+  const state = await journaledUpdate(`Change slot ${slotId} matching`, 'harpoon', (state) => {
+    const slot = getActiveSlots(state)[slotId - 1];
+    if (!slot) return state;
+    
+    const { matchMode: _mode, matchPattern: _pattern, ...rest } = slot;
+    const updated: HarpoonSlot =
+      matchMode === 'exact'
+        ? rest
+        : matchMode === 'regex'
+          ? { ...rest, matchMode, matchPattern: matchPattern ?? '' }
+          : { ...rest, matchMode };
+    return withActiveSlots(state, withSlot(getActiveSlots(state), slotId, updated));
+  });
   
-  return undefined;
+  console.log(`Harpoon: Slot ${slotId} now matches by ${matchMode}`);
+  return state;
 }
 
 /**
@@ -376,33 +1065,37 @@ export async function getSlotForUrl(url: string): Promise<number | undefined> {
  */
 export async function syncWithTabs(): Promise<void> {
   const state = await getHarpoonState();
-  let needsUpdate = false;
-  const newSlots = [...state.slots];
   
-  for (let i = 0; i < newSlots.length; i++) {
-    const slot = newSlots[i];
-    if (!slot) continue;
+  // Look up replacement tabs first - the update itself must stay synchronous
+  // Keyed by URL and match mode - two slots with the same rule find the same tab
+  const replacements = new Map<string, TabPlacement & { tabId: number }>();
+  for (const slot of state.lists.flatMap((list) => list.slots)) {
+    if (!slot?.tabId || replacements.has(matchRuleKey(slot))) continue;
     
     // Check if stored tab ID is still valid
-    if (slot.tabId) {
-      const tab = await getTabById(slot.tabId);
-      if (!tab) {
-        // Tab ID is stale, try to find by URL
-        const tabByUrl = await findTabByUrl(slot.url);
-        if (tabByUrl && tabByUrl.id) {
-          newSlots[i] = {
-            ...slot,
-            tabId: tabByUrl.id,
-            windowId: tabByUrl.windowId,
-          };
-          needsUpdate = true;
-        }
+    const tab = await getTabById(slot.tabId);
+    if (!tab) {
+      // Tab ID is stale, try to find by URL
+      const tabByUrl = await findTabByUrl(slot);
+      if (tabByUrl && tabByUrl.id) {
+        replacements.set(matchRuleKey(slot), { tabId: tabByUrl.id, ...await getTabPlacement(tabByUrl) });
       }
     }
   }
   
-  if (needsUpdate) {
-    await update('harpoon', (state) => ({ ...state, slots: newSlots }));
-    console.log('Harpoon: Synced tab IDs with current tabs');
-  }
+  if (replacements.size === 0) return;
+  
+  // Apply against the latest state, so slots marked in the meantime survive
+  await update('harpoon', (state) => ({
+    ...state,
+    lists: state.lists.map((list) => ({
+      ...list,
+      slots: list.slots.map((slot) => {
+        const replacement = slot ? replacements.get(matchRuleKey(slot)) : undefined;
+        if (!slot || !replacement) return slot;
+        return { ...slot, ...replacement };
+      }),
+    })),
+  }));
+  console.log('Harpoon: Synced tab IDs with current tabs');
 }
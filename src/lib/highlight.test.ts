@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getHighlightSegments, mergeRanges } from './highlight';
+
+describe('mergeRanges', () => {
+  it('merges overlapping ranges given in any order', () => {
+    expect(mergeRanges([[6, 9], [0, 2], [1, 4]])).toEqual([[0, 4], [6, 9]]);
+  });
+
+  it('merges ranges that touch', () => {
+    expect(mergeRanges([[0, 2], [3, 5], [7, 7]])).toEqual([[0, 5], [7, 7]]);
+  });
+
+  it('keeps a range that lies inside another', () => {
+    expect(mergeRanges([[0, 10], [2, 3]])).toEqual([[0, 10]]);
+  });
+});
+
+describe('getHighlightSegments', () => {
+  it('returns the whole text unmatched without ranges', () => {
+    expect(getHighlightSegments('GitHub', undefined)).toEqual([{ text: 'GitHub', matched: false }]);
+    expect(getHighlightSegments('GitHub', [])).toEqual([{ text: 'GitHub', matched: false }]);
+  });
+
+  it('splits the text into matched and unmatched runs', () => {
+    expect(getHighlightSegments('Pull requests', [[0, 3], [5, 7]])).toEqual([
+      { text: 'Pull', matched: true },
+      { text: ' ', matched: false },
+      { text: 'req', matched: true },
+      { text: 'uests', matched: false },
+    ]);
+  });
+
+  it('shifts ranges by the offset and drops what was cut off', () => {
+    // 'github.com/pulls' displayed from 'https://github.com/pulls'
+    expect(getHighlightSegments('github.com/pulls', [[2, 3], [6, 11], [19, 23]], 8)).toEqual([
+      { text: 'gith', matched: true },
+      { text: 'ub.com/', matched: false },
+      { text: 'pulls', matched: true },
+    ]);
+  });
+
+  it('ignores ranges past the end of the text', () => {
+    expect(getHighlightSegments('Inbox', [[1, 2], [4, 8], [20, 25]])).toEqual([
+      { text: 'I', matched: false },
+      { text: 'nb', matched: true },
+      { text: 'o', matched: false },
+      { text: 'x', matched: true },
+    ]);
+  });
+});
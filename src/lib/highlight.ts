@@ -0,0 +1,93 @@
+/**
+ * Highlight - Match Ranges for Telescope Results
+ *
+ * Fuse reports which characters of a title or URL a query matched, as
+ * inclusive [start, end] ranges. These helpers tidy the ranges once per
+ * search and split displayed text into matched and unmatched runs, so the
+ * popup only has to render them.
+ *
+ * Displayed text is often a cut-down version of the original (a URL
+ * without its protocol, truncated to fit), so splitting takes the offset
+ * at which the displayed text starts and drops ranges outside it.
+ */
+
+import type { MatchRange } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A run of displayed text, matched or not
+ */
+export interface HighlightSegment {
+  text: string;
+  matched: boolean;
+}
+
+// =============================================================================
+// RANGES
+// =============================================================================
+
+/**
+ * Sorts ranges and merges those that overlap or touch
+ * Several query terms can match the same field, each with its own ranges.
+ *
+ * @param ranges - Inclusive [start, end] ranges, in any order
+ * @returns Disjoint ranges in ascending order
+ */
+export function mergeRanges(ranges: readonly (readonly [number, number])[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+// =============================================================================
+// SEGMENTS
+// =============================================================================
+
+/**
+ * Splits displayed text into matched and unmatched runs
+ *
+ * @param text - The text as displayed
+ * @param ranges - Match ranges in the original text, from mergeRanges()
+ * @param offset - Where the displayed text starts in the original
+ * @returns Segments that together spell out `text`
+ */
+export function getHighlightSegments(
+  text: string,
+  ranges: MatchRange[] | undefined,
+  offset = 0
+): HighlightSegment[] {
+  if (!ranges || ranges.length === 0) return [{ text, matched: false }];
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const [start, end] of ranges) {
+    // Shift into displayed coordinates, dropping what was cut off
+    const from = Math.max(start - offset, position);
+    const to = Math.min(end - offset + 1, text.length);
+    if (to <= from) {
+      if (start - offset >= text.length) break;
+      continue;
+    }
+
+    if (from > position) segments.push({ text: text.slice(position, from), matched: false });
+    segments.push({ text: text.slice(from, to), matched: true });
+    position = to;
+  }
+
+  if (position < text.length) segments.push({ text: text.slice(position), matched: false });
+  return segments;
+}
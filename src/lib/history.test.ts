@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HarpoonSlot, HarpoonState } from './types';
+import { get, update } from './storage';
+import { journaledUpdate, redo, undo } from './history';
+
+/**
+ * In-memory stand-in for a chrome.storage area
+ */
+function fakeStorageArea() {
+  let items: Record<string, unknown> = {};
+  return {
+    get: async (key: string) => (key in items ? { [key]: structuredClone(items[key]) } : {}),
+    set: async (values: Record<string, unknown>) => {
+      items = { ...items, ...structuredClone(values) };
+    },
+  };
+}
+
+const slot = (id: number, title: string): HarpoonSlot => ({
+  id,
+  url: `https://example.com/${id}`,
+  title,
+  tabId: 100 + id,
+});
+
+/**
+ * Updates one slot of every list
+ */
+const updateSlot = (index: number, change: Partial<HarpoonSlot>) => (state: HarpoonState): HarpoonState => ({
+  ...state,
+  lists: state.lists.map((list) => ({
+    ...list,
+    slots: list.slots.map((current, i) => (i === index && current ? { ...current, ...change } : current)),
+  })),
+});
+
+const slots = async () => (await get('harpoon')).lists[0]!.slots;
+
+describe('undo/redo', () => {
+  beforeEach(async () => {
+    vi.stubGlobal('chrome', { storage: { local: fakeStorageArea(), session: fakeStorageArea() } });
+    await update('harpoon', (state) => ({
+      ...state,
+      lists: [{ id: 'default', name: 'Default', slots: [slot(1, 'One'), slot(2, 'Two'), null] }],
+    }));
+  });
+
+  it('keeps updates made outside the journal since the operation', async () => {
+    await journaledUpdate('Rename slot 1', 'harpoon', updateSlot(0, { title: 'Renamed' }));
+
+    // Not journaled: slot 1 follows its tab, slot 2 is rebound to a new tab
+    await update('harpoon', updateSlot(0, { url: 'https://example.com/moved' }));
+    await update('harpoon', updateSlot(1, { tabId: 999 }));
+
+    expect((await undo())?.label).toBe('Rename slot 1');
+    expect(await slots()).toEqual([
+      { ...slot(1, 'One'), url: 'https://example.com/moved' },
+      { ...slot(2, 'Two'), tabId: 999 },
+      null,
+    ]);
+
+    await redo();
+    expect((await slots())[0]).toEqual({ ...slot(1, 'Renamed'), url: 'https://example.com/moved' });
+  });
+
+  it('puts back a removed list where it was', async () => {
+    await update('harpoon', (state) => ({
+      ...state,
+      lists: [...state.lists, { id: 'work', name: 'Work', slots: [] }, { id: 'play', name: 'Play', slots: [] }],
+    }));
+    await journaledUpdate('Delete list', 'harpoon', (state) => ({
+      ...state,
+      lists: state.lists.filter((list) => list.id !== 'work'),
+    }));
+
+    await undo();
+    expect((await get('harpoon')).lists.map((list) => list.id)).toEqual(['default', 'work', 'play']);
+  });
+
+  it('undoes concurrent operations in the order they were made', async () => {
+    await Promise.all([
+      journaledUpdate('Rename slot 1', 'harpoon', updateSlot(0, { title: 'First' })),
+      journaledUpdate('Rename slot 1 again', 'harpoon', updateSlot(0, { title: 'Second' })),
+    ]);
+    expect((await slots())[0]?.title).toBe('Second');
+
+    expect((await undo())?.label).toBe('Rename slot 1 again');
+    expect((await slots())[0]?.title).toBe('First');
+    expect((await undo())?.label).toBe('Rename slot 1');
+    expect((await slots())[0]?.title).toBe('One');
+  });
+
+  it('records nothing for an update that changes nothing', async () => {
+    await journaledUpdate('Nothing', 'harpoon', (state) => ({ ...state }));
+
+    expect(await undo()).toBeNull();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * History - Undo/Redo Journal
+ *
+ * Records harpoon and workspace mutations so they can be undone and redone.
+ * Each entry stores only the values the operation changed - a slot's
+ * title, a workspace's name, the active list - as found by diffing the
+ * key before and after the locked update that performed it.
+ *
+ * Undo and redo put back just those values, so changes made outside the
+ * journal since (a slot following its tab, slot health, tab IDs rebound
+ * after a restart) survive unless they touched the very same value.
+ *
+ * The journal lives in chrome.storage.session: it survives service worker
+ * restarts and is shared by the popup and the background, but is dropped
+ * when the browser closes.
+ */
+
+import type {
+  HistoryChange,
+  HistoryEntry,
+  HistoryPathSegment,
+  HistoryState,
+  JournaledKey,
+  StorageSchema,
+} from './types';
+import { get, withStorageLock, writeUnlocked } from './storage';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Session storage key for the journal
+ */
+const HISTORY_KEY = 'history';
+
+/**
+ * Maximum number of undoable operations kept
+ */
+const MAX_HISTORY_ENTRIES = 50;
+
+// =============================================================================
+// JOURNAL STORAGE
+// =============================================================================
+
+/**
+ * Reads the journal from session storage
+ */
+export async function getHistoryState(): Promise<HistoryState> {
+  const { [HISTORY_KEY]: history } = await chrome.storage.session.get(HISTORY_KEY);
+  return (history as HistoryState | undefined) ?? { undo: [], redo: [] };
+}
+
+/**
+ * Writes the journal to session storage
+ */
+async function setHistoryState(history: HistoryState): Promise<void> {
+  await chrome.storage.session.set({ [HISTORY_KEY]: history });
+}
+
+// =============================================================================
+// CHANGES
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks for a list of `{ id }` objects, whose items are matched up by ID
+ * rather than by position
+ */
+function isKeyedList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every((item) => isRecord(item) && typeof item.id === 'string');
+}
+
+/**
+ * Collects the values that differ between two versions of stored state
+ * Objects are compared key by key, `{ id }` lists item by item, other lists
+ * of objects (slots) position by position; anything else, including lists
+ * of plain values like a workspace's tab IDs, is compared as a whole.
+ */
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: HistoryPathSegment[],
+  changes: HistoryChange[]
+): void {
+  if (before === after) return;
+
+  if (isRecord(before) && isRecord(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!(key in after)) {
+        changes.push({ path: [...path, key], before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: [...path, key], after: after[key] });
+      } else {
+        collectChanges(before[key], after[key], [...path, key], changes);
+      }
+    }
+    return;
+  }
+
+  if (isKeyedList(before) && isKeyedList(after)) {
+    before.forEach((item, index) => {
+      const afterIndex = after.findIndex((other) => other.id === item.id);
+      if (afterIndex === -1) {
+        changes.push({ path: [...path, { id: item.id, index }], before: item });
+      } else {
+        collectChanges(item, after[afterIndex], [...path, { id: item.id, index: afterIndex }], changes);
+      }
+    });
+    after.forEach((item, index) => {
+      if (!before.some((other) => other.id === item.id)) {
+        changes.push({ path: [...path, { id: item.id, index }], after: item });
+      }
+    });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && [...before, ...after].some(isRecord)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= after.length) {
+        changes.push({ path: [...path, i], before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: [...path, i], after: after[i] });
+      } else {
+        collectChanges(before[i], after[i], [...path, i], changes);
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+/**
+ * Finds the value a path segment points to, if it is still there
+ */
+function step(container: unknown, segment: HistoryPathSegment): unknown {
+  if (typeof segment === 'string') return isRecord(container) ? container[segment] : undefined;
+  if (!Array.isArray(container)) return undefined;
+  if (typeof segment === 'number') return container[segment];
+  return container.find((item) => isRecord(item) && item.id === segment.id);
+}
+
+/**
+ * Puts one side of a change into a copy of the current state
+ * A change inside something that has since been removed is skipped.
+ */
+function applyChange(root: unknown, change: HistoryChange, side: 'before' | 'after'): unknown {
+  const present = side in change;
+  const value = change[side];
+  if (change.path.length === 0) return present ? value : root;
+
+  let parent = root;
+  for (const segment of change.path.slice(0, -1)) {
+    parent = step(parent, segment);
+    if (parent === undefined) return root;
+  }
+
+  const last = change.path[change.path.length - 1]!;
+  if (typeof last === 'string') {
+    if (!isRecord(parent)) return root;
+    if (present) {
+      parent[last] = value;
+    } else {
+      delete parent[last];
+    }
+  } else if (typeof last === 'number') {
+    if (!Array.isArray(parent)) return root;
+    if (present) {
+      parent[last] = value;
+    } else {
+      // Only trailing items are ever removed by position
+      parent.length = Math.min(parent.length, last);
+    }
+  } else {
+    if (!Array.isArray(parent)) return root;
+    const index = parent.findIndex((item) => isRecord(item) && item.id === last.id);
+    if (present && index !== -1) {
+      parent[index] = value;
+    } else if (present) {
+      parent.splice(Math.min(last.index, parent.length), 0, value);
+    } else if (index !== -1) {
+      parent.splice(index, 1);
+    }
+  }
+  return root;
+}
+
+/**
+ * Rolls an entry's changes back (undo) or forward (redo) onto the current
+ * value of its key, under the storage lock
+ */
+async function applyEntry(entry: HistoryEntry, side: 'before' | 'after'): Promise<void> {
+  // Changes never overlap, and re-inserted items go back in ascending order
+  let value: unknown = structuredClone(await get(entry.key));
+  for (const change of entry.changes) {
+    value = applyChange(value, change, side);
+  }
+  await writeUnlocked(entry.key, value as StorageSchema[JournaledKey]);
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Like update(), but records the change so it can be undone
+ * The change and its journal entry are written in the same lock section,
+ * so no other update or undo can run between them and entries stay in the
+ * order their changes were made. A new operation clears the redo stack.
+ * Updates that change nothing aren't recorded.
+ *
+ * @param label - Human-readable description of the operation
+ * @param key - The storage key to update
+ * @param updater - Function that receives current value and returns updated value
+ * @returns The value as written to storage
+ */
+export async function journaledUpdate<K extends JournaledKey>(
+  label: string,
+  key: K,
+  updater: (current: StorageSchema[K]) => StorageSchema[K]
+): Promise<StorageSchema[K]> {
+  return await withStorageLock(async () => {
+    const before = await get(key);
+    const after = updater(before);
+    if (after === before) return after;
+
+    const changes: HistoryChange[] = [];
+    collectChanges(before, after, [], changes);
+
+    await writeUnlocked(key, after);
+    if (changes.length > 0) {
+      const entry: HistoryEntry = {
+        id: `op_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        label,
+        timestamp: Date.now(),
+        key,
+        changes,
+      };
+      const history = await getHistoryState();
+      await setHistoryState({
+        undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+        redo: [],
+      });
+    }
+
+    return after;
+  });
+}
+
+// =============================================================================
+// UNDO / REDO
+// =============================================================================
+
+/**
+ * Undoes the most recent operation
+ * Puts back the values the operation changed, as they were before it
+ *
+ * @returns The undone entry, or null if there was nothing to undo
+ */
+export async function undo(): Promise<HistoryEntry | null> {
+  return await withStorageLock(async () => {
+    const history = await getHistoryState();
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return null;
+
+    await applyEntry(entry, 'before');
+    await setHistoryState({
+      undo: history.undo.slice(0, -1),
+      redo: [...history.redo, entry],
+    });
+
+    console.log(`History: Undid "${entry.label}"`);
+    return entry;
+  });
+}
+
+/**
+ * Redoes the most recently undone operation
+ *
+ * @returns The redone entry, or null if there was nothing to redo
+ */
+export async function redo(): Promise<HistoryEntry | null> {
+  return await withStorageLock(async () => {
+    const history = await getHistoryState();
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return null;
+
+    await applyEntry(entry, 'after');
+    await setHistoryState({
+      undo: [...history.undo, entry],
+      redo: history.redo.slice(0, -1),
+    });
+
+    console.log(`History: Redid "${entry.label}"`);
+    return entry;
+  });
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { validateImportData } from './importer';
+
+/**
+ * A well-formed slot as written before schema versioning
+ */
+const legacySlot = (id: number) => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: `Page ${id}`,
+});
+
+describe('validateImportData', () => {
+  it('migrates a well-formed unversioned export', () => {
+    const { data, errors } = validateImportData({
+      harpoon: { slots: [legacySlot(1), null], maxSlots: 3 },
+    });
+
+    expect(errors).toEqual([]);
+    expect(data.harpoon?.lists[0]?.slots).toHaveLength(3);
+  });
+
+  describe('malformed legacy sections', () => {
+    it('rejects harpoon slots that are not an array', () => {
+      const { data, errors } = validateImportData({ harpoon: { slots: 'nope', maxSlots: 5 } });
+
+      expect(data.harpoon).toBeUndefined();
+      expect(errors).toEqual([{ path: 'harpoon.slots', message: 'must be an array' }]);
+    });
+
+    it('rejects slots beyond maxSlots instead of trimming them', () => {
+      const { data, errors } = validateImportData({
+        harpoon: { slots: [legacySlot(1), legacySlot(2), legacySlot(3)], maxSlots: 2 },
+      });
+
+      expect(data.harpoon).toBeUndefined();
+      expect(errors).toEqual([{ path: 'harpoon.slots[2]', message: 'is beyond maxSlots (2)' }]);
+    });
+
+    it('rejects a garbage maxSlots instead of falling back to 5', () => {
+      const { data, errors } = validateImportData({ harpoon: { slots: [], maxSlots: 'lots' } });
+
+      expect(data.harpoon).toBeUndefined();
+      expect(errors).toEqual([{ path: 'harpoon.maxSlots', message: 'must be a whole number from 1 to 10' }]);
+    });
+
+    it('rejects a workspaces list that is not an array', () => {
+      const { data, errors } = validateImportData({ workspaces: { workspaces: {}, activeWorkspaceId: null } });
+
+      expect(data.workspaces).toBeUndefined();
+      expect(errors).toEqual([{ path: 'workspaces.workspaces', message: 'must be an array' }]);
+    });
+
+    it('reports a null workspace entry on that entry', () => {
+      const { data, errors } = validateImportData({
+        workspaces: { workspaces: [null], activeWorkspaceId: null },
+      });
+
+      expect(data.workspaces).toBeUndefined();
+      expect(errors).toEqual([{ path: 'workspaces.workspaces[0]', message: 'must be a workspace object' }]);
+    });
+
+    it('keeps the valid sections of a file with a malformed one', () => {
+      const { data, errors } = validateImportData({
+        harpoon: { slots: null },
+        settings: { vimModeEnabled: true },
+      });
+
+      expect(data).toEqual({ settings: { vimModeEnabled: true } });
+      expect(errors.map((error) => error.path)).toEqual(['harpoon.slots']);
+    });
+  });
+});
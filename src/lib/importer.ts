@@ -0,0 +1,784 @@
+/**
+ * Import Pipeline
+ *
+ * Turns an untrusted JSON backup into storage writes:
+ * 1. migrate    - upgrade old exports to the current schema version,
+ *                after checking sections in an older layout as they are
+ * 2. validate   - check every section field by field
+ * 3. preview    - diff what the import would change
+ * 4. apply      - write the selected sections, overwriting or merging
+ *
+ * Everything except importData() is pure, so the options page can preview
+ * an import without touching storage.
+ */
+
+import type {
+  HarpoonList,
+  HarpoonSlot,
+  HarpoonState,
+  ImportChange,
+  ImportOptions,
+  ImportValidationResult,
+  KeybindAction,
+  SearchResultType,
+  Settings,
+  StorageKey,
+  StorageSchema,
+  ValidationIssue,
+  VersionedStorageData,
+  Workspace,
+  WorkspaceState,
+} from './types';
+import {
+  DEFAULT_HARPOON_STATE,
+  DEFAULT_SETTINGS,
+  DEFAULT_WORKSPACE_STATE,
+  STORAGE_KEYS,
+  get,
+  withStorageLock,
+  writeUnlocked,
+} from './storage';
+import { getSchemaVersion, migrateData } from './migrations';
+import { URL_MATCH_MODES, validateMatchPattern } from './urlMatch';
+import { SLOT_FOLLOW_POLICIES } from './harpoon';
+import { TAB_GROUP_COLORS } from './tabs';
+import { getSnapshot, takeSnapshot } from './snapshots';
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Tab group colors Chrome accepts (workspace colors map onto these)
+ */
+const WORKSPACE_COLORS = ['grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange'];
+
+/**
+ * Keybind actions that may appear in settings.keybinds
+ */
+const KEYBIND_ACTIONS: KeybindAction[] = [
+  'openTelescope',
+  'harpoonMark',
+  'harpoon1',
+  'harpoon2',
+  'harpoon3',
+  'harpoon4',
+  'harpoon5',
+  'harpoon6',
+  'harpoon7',
+  'harpoon8',
+  'harpoon9',
+  'harpoon10',
+  'harpoonNext',
+  'harpoonPrev',
+  'harpoonLast',
+  'harpoonLeader',
+  'harpoonListNext',
+  'tabPrevious',
+  'workspaceNext',
+  'workspacePrev',
+  'navigateUp',
+  'navigateDown',
+  'selectItem',
+];
+
+/**
+ * Sources that need a weight in settings.telescopeSourceWeights
+ */
+const SEARCH_SOURCES: SearchResultType[] = ['tab', 'history', 'bookmark', 'workspace', 'harpoon'];
+
+/**
+ * Workspace IDs are generated as `ws_<time>_<random>`, plus the built-in 'default'
+ */
+const WORKSPACE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isValidUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validators for each setting, returning an error message or null
+ * Typed as a complete mapping so adding a setting without a validator
+ * fails to compile
+ */
+const SETTING_VALIDATORS: { [K in keyof Settings]: (value: unknown) => string | null } = {
+  vimModeEnabled: (v) => (typeof v === 'boolean' ? null : 'must be true or false'),
+  keybinds: (v) => {
+    if (!isObject(v)) return 'must be an object';
+    for (const [action, key] of Object.entries(v)) {
+      if (!KEYBIND_ACTIONS.includes(action as KeybindAction)) return `unknown action "${action}"`;
+      if (typeof key !== 'string') return `key for "${action}" must be a string`;
+    }
+    return null;
+  },
+  harpoonMaxSlots: (v) => (isInteger(v, 1, 10) ? null : 'must be a whole number from 1 to 10'),
+  harpoonReopenClosed: (v) => (typeof v === 'boolean' ? null : 'must be true or false'),
+  harpoonReopenFallback: (v) =>
+    v === 'current-window' || v === 'new-window' ? null : 'must be "current-window" or "new-window"',
+  telescopeShowUrls: (v) => (typeof v === 'boolean' ? null : 'must be true or false'),
+  telescopeMaxResults: (v) => (isInteger(v, 10, 100) ? null : 'must be a whole number from 10 to 100'),
+  telescopeSourceWeights: (v) => {
+    if (!isObject(v)) return 'must be an object';
+    for (const source of SEARCH_SOURCES) {
+      const weight = v[source];
+      if (typeof weight !== 'number' || weight < 0 || weight > 2) return `weight for "${source}" must be a number from 0 to 2`;
+    }
+    return null;
+  },
+  telescopeFrecencyBlend: (v) =>
+    typeof v === 'number' && v >= 0 && v <= 1 ? null : 'must be a number from 0 to 1',
+  defaultWorkspaceName: (v) =>
+    typeof v === 'string' && v.trim().length > 0 ? null : 'must be a non-empty string',
+  theme: (v) =>
+    v === 'system' || v === 'light' || v === 'dark' ? null : 'must be "system", "light" or "dark"',
+  syncEnabled: (v) => (typeof v === 'boolean' ? null : 'must be true or false'),
+};
+
+// =============================================================================
+// SECTION VALIDATORS
+// =============================================================================
+
+/**
+ * Validates a single harpoon slot
+ */
+function validateSlot(slot: unknown, index: number, path: string, errors: ValidationIssue[]): void {
+  if (slot === null) return;
+  if (!isObject(slot)) {
+    errors.push({ path, message: 'must be a slot object or null' });
+    return;
+  }
+  if (slot.id !== index + 1) {
+    errors.push({ path: `${path}.id`, message: `must be ${index + 1} to match its position` });
+  }
+  if (!isValidUrl(slot.url)) {
+    errors.push({ path: `${path}.url`, message: 'must be a valid URL' });
+  }
+  if (typeof slot.title !== 'string') {
+    errors.push({ path: `${path}.title`, message: 'must be a string' });
+  }
+  if (slot.favicon !== undefined && typeof slot.favicon !== 'string') {
+    errors.push({ path: `${path}.favicon`, message: 'must be a string' });
+  }
+  if (slot.matchMode !== undefined && !URL_MATCH_MODES.some((entry) => entry.mode === slot.matchMode)) {
+    errors.push({
+      path: `${path}.matchMode`,
+      message: `must be one of ${URL_MATCH_MODES.map((entry) => entry.mode).join(', ')}`,
+    });
+  }
+  if (slot.followPolicy !== undefined && !SLOT_FOLLOW_POLICIES.some((entry) => entry.policy === slot.followPolicy)) {
+    errors.push({
+      path: `${path}.followPolicy`,
+      message: `must be one of ${SLOT_FOLLOW_POLICIES.map((entry) => entry.policy).join(', ')}`,
+    });
+  }
+  if (slot.matchMode === 'regex') {
+    const problem = typeof slot.matchPattern === 'string' ? validateMatchPattern(slot.matchPattern) : 'is missing';
+    if (problem) {
+      errors.push({ path: `${path}.matchPattern`, message: problem.toLowerCase() });
+    }
+  } else if (slot.matchPattern !== undefined && typeof slot.matchPattern !== 'string') {
+    errors.push({ path: `${path}.matchPattern`, message: 'must be a string' });
+  }
+  for (const key of ['tabId', 'windowId', 'index'] as const) {
+    if (slot[key] !== undefined && !isInteger(slot[key], -1, Number.MAX_SAFE_INTEGER)) {
+      errors.push({ path: `${path}.${key}`, message: 'must be a whole number' });
+    }
+  }
+  if (slot.pinned !== undefined && typeof slot.pinned !== 'boolean') {
+    errors.push({ path: `${path}.pinned`, message: 'must be true or false' });
+  }
+  if (slot.group !== undefined) {
+    const group = slot.group;
+    if (
+      !isObject(group) ||
+      !isInteger(group.id, 0, Number.MAX_SAFE_INTEGER) ||
+      typeof group.title !== 'string' ||
+      !(TAB_GROUP_COLORS as readonly unknown[]).includes(group.color)
+    ) {
+      errors.push({ path: `${path}.group`, message: 'must be a tab group with an id, a title and a color' });
+    }
+  }
+  if (slot.health !== undefined) {
+    const health = slot.health;
+    if (
+      !isObject(health) ||
+      (health.status !== 'unreachable' && health.status !== 'redirected') ||
+      (health.error !== undefined && typeof health.error !== 'string') ||
+      (health.redirectUrl !== undefined && !isValidUrl(health.redirectUrl)) ||
+      typeof health.since !== 'number'
+    ) {
+      errors.push({ path: `${path}.health`, message: 'must be a slot health record' });
+    }
+  }
+}
+
+/**
+ * Validates the harpoon section
+ */
+function validateHarpoon(value: unknown, errors: ValidationIssue[]): void {
+  if (!isObject(value)) {
+    errors.push({ path: 'harpoon', message: 'must be an object' });
+    return;
+  }
+  if (!isInteger(value.maxSlots, 1, 10)) {
+    errors.push({ path: 'harpoon.maxSlots', message: 'must be a whole number from 1 to 10' });
+  }
+  if (!Array.isArray(value.lists) || value.lists.length === 0) {
+    errors.push({ path: 'harpoon.lists', message: 'must be a non-empty array' });
+    return;
+  }
+
+  const maxSlots = isInteger(value.maxSlots, 1, 10) ? value.maxSlots : 10;
+  const ids = new Set<string>();
+
+  value.lists.forEach((list: unknown, listIndex) => {
+    const listPath = `harpoon.lists[${listIndex}]`;
+    if (!isObject(list)) {
+      errors.push({ path: listPath, message: 'must be a list object' });
+      return;
+    }
+    if (typeof list.id !== 'string' || list.id === '') {
+      errors.push({ path: `${listPath}.id`, message: 'must be a non-empty string' });
+    } else if (ids.has(list.id)) {
+      errors.push({ path: `${listPath}.id`, message: `duplicates list ID "${list.id}"` });
+    } else {
+      ids.add(list.id);
+    }
+    if (typeof list.name !== 'string') {
+      errors.push({ path: `${listPath}.name`, message: 'must be a string' });
+    }
+    if (!Array.isArray(list.slots)) {
+      errors.push({ path: `${listPath}.slots`, message: 'must be an array' });
+      return;
+    }
+
+    list.slots.forEach((slot, index) => {
+      const path = `${listPath}.slots[${index}]`;
+      if (index >= maxSlots && slot !== null) {
+        errors.push({ path, message: `is beyond maxSlots (${maxSlots})` });
+        return;
+      }
+      validateSlot(slot, index, path, errors);
+    });
+  });
+
+  if (typeof value.activeListId !== 'string' || !ids.has(value.activeListId)) {
+    errors.push({ path: 'harpoon.activeListId', message: 'must be the ID of one of the lists' });
+  }
+}
+
+/**
+ * Validates the workspaces section
+ */
+function validateWorkspaces(value: unknown, errors: ValidationIssue[]): void {
+  if (!isObject(value)) {
+    errors.push({ path: 'workspaces', message: 'must be an object' });
+    return;
+  }
+  if (!Array.isArray(value.workspaces) || value.workspaces.length === 0) {
+    errors.push({ path: 'workspaces.workspaces', message: 'must be a non-empty array' });
+    return;
+  }
+
+  const ids = new Set<string>();
+  let defaultCount = 0;
+
+  value.workspaces.forEach((ws: unknown, index) => {
+    const path = `workspaces.workspaces[${index}]`;
+    if (!isObject(ws)) {
+      errors.push({ path, message: 'must be a workspace object' });
+      return;
+    }
+    if (typeof ws.id !== 'string' || !WORKSPACE_ID_PATTERN.test(ws.id)) {
+      errors.push({ path: `${path}.id`, message: 'must be 1-64 letters, digits, "_" or "-"' });
+    } else if (ids.has(ws.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicates workspace ID "${ws.id}"` });
+    } else {
+      ids.add(ws.id);
+    }
+    if (typeof ws.name !== 'string' || ws.name.trim().length === 0) {
+      errors.push({ path: `${path}.name`, message: 'must be a non-empty string' });
+    }
+    if (!isStringArray(ws.tabUrls)) {
+      errors.push({ path: `${path}.tabUrls`, message: 'must be an array of URLs' });
+    }
+    if (!Array.isArray(ws.tabIds) || !ws.tabIds.every((id) => isInteger(id, 0, Number.MAX_SAFE_INTEGER))) {
+      errors.push({ path: `${path}.tabIds`, message: 'must be an array of tab IDs' });
+    }
+    if (ws.color !== undefined && !WORKSPACE_COLORS.includes(ws.color as string)) {
+      errors.push({ path: `${path}.color`, message: `must be one of ${WORKSPACE_COLORS.join(', ')}` });
+    }
+    if (ws.isDefault !== undefined && typeof ws.isDefault !== 'boolean') {
+      errors.push({ path: `${path}.isDefault`, message: 'must be true or false' });
+    }
+    if (ws.harpoonListId !== undefined && (typeof ws.harpoonListId !== 'string' || ws.harpoonListId === '')) {
+      errors.push({ path: `${path}.harpoonListId`, message: 'must be a non-empty string' });
+    }
+    if (ws.isDefault === true) defaultCount++;
+  });
+
+  if (defaultCount > 1) {
+    errors.push({ path: 'workspaces.workspaces', message: 'has more than one default workspace' });
+  }
+
+  const active = value.activeWorkspaceId;
+  if (active !== null && (typeof active !== 'string' || !ids.has(active))) {
+    errors.push({ path: 'workspaces.activeWorkspaceId', message: 'must be null or an existing workspace ID' });
+  }
+
+  if (!isObject(value.tabToWorkspace)) {
+    errors.push({ path: 'workspaces.tabToWorkspace', message: 'must be an object' });
+    return;
+  }
+  for (const [tabId, wsId] of Object.entries(value.tabToWorkspace)) {
+    const path = `workspaces.tabToWorkspace[${tabId}]`;
+    if (!/^\d+$/.test(tabId)) {
+      errors.push({ path, message: 'key must be a tab ID' });
+    } else if (typeof wsId !== 'string' || !ids.has(wsId)) {
+      errors.push({ path, message: 'must reference an existing workspace ID' });
+    }
+  }
+}
+
+/**
+ * Validates the settings section
+ * Missing settings are fine (they fall back to defaults), unknown ones are not
+ */
+function validateSettings(value: unknown, errors: ValidationIssue[]): void {
+  if (!isObject(value)) {
+    errors.push({ path: 'settings', message: 'must be an object' });
+    return;
+  }
+  for (const [key, setting] of Object.entries(value)) {
+    const validator = SETTING_VALIDATORS[key as keyof Settings];
+    if (!validator) {
+      errors.push({ path: `settings.${key}`, message: 'is not a known setting' });
+      continue;
+    }
+    const message = validator(setting);
+    if (message) {
+      errors.push({ path: `settings.${key}`, message });
+    }
+  }
+}
+
+// =============================================================================
+// LEGACY SECTION VALIDATORS
+// =============================================================================
+
+/**
+ * Validates the harpoon section of pre-v2 data: a single slots array
+ * Migrations leave a section without this shape as it is, so it is checked
+ * here to fail with an error about the field that is actually wrong.
+ */
+function validateLegacyHarpoon(value: unknown, errors: ValidationIssue[]): void {
+  if (!isObject(value)) {
+    errors.push({ path: 'harpoon', message: 'must be an object' });
+    return;
+  }
+  if (value.maxSlots !== undefined && !isInteger(value.maxSlots, 1, 10)) {
+    errors.push({ path: 'harpoon.maxSlots', message: 'must be a whole number from 1 to 10' });
+  }
+  if (!Array.isArray(value.slots)) {
+    errors.push({ path: 'harpoon.slots', message: 'must be an array' });
+    return;
+  }
+
+  const maxSlots = isInteger(value.maxSlots, 1, 10) ? value.maxSlots : 5;
+  value.slots.forEach((slot, index) => {
+    const path = `harpoon.slots[${index}]`;
+    if (slot === null) return;
+    if (!isObject(slot)) {
+      errors.push({ path, message: 'must be a slot object or null' });
+    } else if (index >= maxSlots) {
+      errors.push({ path, message: `is beyond maxSlots (${maxSlots})` });
+    }
+  });
+}
+
+/**
+ * Validates the workspaces section of pre-v1 data, where tabIds and
+ * tabUrls could still be missing
+ */
+function validateLegacyWorkspaces(value: unknown, errors: ValidationIssue[]): void {
+  if (!isObject(value)) {
+    errors.push({ path: 'workspaces', message: 'must be an object' });
+    return;
+  }
+  if (!Array.isArray(value.workspaces)) {
+    errors.push({ path: 'workspaces.workspaces', message: 'must be an array' });
+    return;
+  }
+
+  value.workspaces.forEach((ws: unknown, index) => {
+    const path = `workspaces.workspaces[${index}]`;
+    if (!isObject(ws)) {
+      errors.push({ path, message: 'must be a workspace object' });
+      return;
+    }
+    for (const field of ['tabIds', 'tabUrls']) {
+      if (ws[field] !== undefined && !Array.isArray(ws[field])) {
+        errors.push({ path: `${path}.${field}`, message: 'must be an array' });
+      }
+    }
+  });
+}
+
+/**
+ * Checks for sections in an older layout, run before migrating
+ * `before` is the first schema version that no longer has that layout.
+ */
+const LEGACY_VALIDATORS: {
+  key: StorageKey;
+  before: number;
+  validate: (value: unknown, errors: ValidationIssue[]) => void;
+}[] = [
+  { key: 'harpoon', before: 2, validate: validateLegacyHarpoon },
+  { key: 'workspaces', before: 1, validate: validateLegacyWorkspaces },
+];
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validates and migrates untrusted import data
+ * Sections in an older layout are checked as they are first, so a malformed
+ * one is rejected rather than migrated into something that looks valid.
+ *
+ * @param raw - Parsed JSON from an export file
+ * @returns The valid sections plus a list of field-level errors
+ */
+export function validateImportData(raw: unknown): ImportValidationResult {
+  if (!isObject(raw)) {
+    return { data: {}, errors: [{ path: '', message: 'File must contain a JSON object' }] };
+  }
+
+  const version = getSchemaVersion(raw as VersionedStorageData);
+  const sound: VersionedStorageData = { ...raw };
+  const errors: ValidationIssue[] = [];
+
+  for (const { key, before, validate } of LEGACY_VALIDATORS) {
+    if (version >= before || raw[key] === undefined) continue;
+    const sectionErrors: ValidationIssue[] = [];
+    validate(raw[key], sectionErrors);
+    if (sectionErrors.length > 0) {
+      delete sound[key];
+      errors.push(...sectionErrors);
+    }
+  }
+
+  let migrated: VersionedStorageData;
+  try {
+    migrated = migrateData(sound);
+  } catch (error) {
+    return { data: {}, errors: [{ path: 'schemaVersion', message: (error as Error).message }] };
+  }
+
+  const validators: Record<StorageKey, (value: unknown, errors: ValidationIssue[]) => void> = {
+    harpoon: validateHarpoon,
+    workspaces: validateWorkspaces,
+    settings: validateSettings,
+  };
+
+  const data: Partial<StorageSchema> = {};
+
+  for (const key of STORAGE_KEYS) {
+    if (migrated[key] === undefined) continue;
+    const sectionErrors: ValidationIssue[] = [];
+    validators[key](migrated[key], sectionErrors);
+    if (sectionErrors.length === 0) {
+      (data as Record<StorageKey, unknown>)[key] = migrated[key];
+    }
+    errors.push(...sectionErrors);
+  }
+
+  if (Object.keys(data).length === 0 && errors.length === 0) {
+    errors.push({ path: '', message: 'File contains no harpoon, workspaces or settings data' });
+  }
+
+  return { data, errors };
+}
+
+// =============================================================================
+// MERGING
+// =============================================================================
+
+/**
+ * Combines imported harpoon state with the current one
+ * Merge: lists with the same ID take the imported name, and imported slots
+ * fill their positions while empty imported slots keep whatever is there
+ * now; new lists are appended. The active list stays as it is.
+ */
+function combineHarpoon(current: HarpoonState, incoming: HarpoonState, options: ImportOptions): HarpoonState {
+  if (options.mode === 'overwrite') {
+    return { ...DEFAULT_HARPOON_STATE, ...incoming };
+  }
+
+  const maxSlots = Math.max(current.maxSlots, incoming.maxSlots);
+  const fill = (primary: (HarpoonSlot | null)[], fallback: (HarpoonSlot | null)[]) => {
+    const slots: (HarpoonSlot | null)[] = [];
+    for (let i = 0; i < maxSlots; i++) {
+      slots.push(primary[i] ?? fallback[i] ?? null);
+    }
+    return slots;
+  };
+
+  const incomingById = new Map(incoming.lists.map((list) => [list.id, list]));
+  const currentIds = new Set(current.lists.map((list) => list.id));
+
+  const updated: HarpoonList[] = current.lists.map((list) => {
+    const imported = incomingById.get(list.id);
+    return imported
+      ? { ...list, name: imported.name, slots: fill(imported.slots, list.slots) }
+      : { ...list, slots: fill(list.slots, []) };
+  });
+  const added: HarpoonList[] = incoming.lists
+    .filter((list) => !currentIds.has(list.id))
+    .map((list) => ({ ...list, slots: fill(list.slots, []) }));
+
+  return { ...current, maxSlots, lists: [...updated, ...added] };
+}
+
+/**
+ * Combines imported workspaces with the current ones
+ * Merge: workspaces with the same ID take the imported name, color and URLs
+ * but keep this browser's tabs; new workspaces are appended. The current
+ * default and active workspace stay as they are.
+ */
+function combineWorkspaces(current: WorkspaceState, incoming: WorkspaceState, options: ImportOptions): WorkspaceState {
+  if (options.mode === 'overwrite') {
+    return { ...DEFAULT_WORKSPACE_STATE, ...incoming };
+  }
+
+  const incomingById = new Map(incoming.workspaces.map((ws) => [ws.id, ws]));
+  const currentIds = new Set(current.workspaces.map((ws) => ws.id));
+
+  const updated: Workspace[] = current.workspaces.map((ws) => {
+    const imported = incomingById.get(ws.id);
+    return imported
+      ? { ...ws, name: imported.name, color: imported.color, tabUrls: imported.tabUrls }
+      : ws;
+  });
+  const added: Workspace[] = incoming.workspaces
+    .filter((ws) => !currentIds.has(ws.id))
+    .map((ws) => ({ ...ws, tabIds: [], isDefault: false }));
+
+  return { ...current, workspaces: [...updated, ...added] };
+}
+
+/**
+ * Combines imported settings with the current ones
+ * Merge: only settings present in the import are changed
+ */
+function combineSettings(current: Settings, incoming: Settings, options: ImportOptions): Settings {
+  return options.mode === 'overwrite'
+    ? { ...DEFAULT_SETTINGS, ...incoming }
+    : { ...current, ...incoming };
+}
+
+/**
+ * Computes the state an import would produce
+ *
+ * @param current - Current stored state
+ * @param incoming - Validated import data
+ * @param options - Sections to import and overwrite/merge mode
+ * @returns The resulting state for the selected sections only
+ */
+export function buildImportedState(
+  current: StorageSchema,
+  incoming: Partial<StorageSchema>,
+  options: ImportOptions
+): Partial<StorageSchema> {
+  const result: Partial<StorageSchema> = {};
+
+  if (options.sections.includes('harpoon') && incoming.harpoon) {
+    result.harpoon = combineHarpoon(current.harpoon, incoming.harpoon, options);
+  }
+  if (options.sections.includes('workspaces') && incoming.workspaces) {
+    result.workspaces = combineWorkspaces(current.workspaces, incoming.workspaces, options);
+  }
+  if (options.sections.includes('settings') && incoming.settings) {
+    result.settings = combineSettings(current.settings, incoming.settings, options);
+  }
+
+  return result;
+}
+
+// =============================================================================
+// PREVIEW
+// =============================================================================
+
+/**
+ * Short, single-line description of a value for the diff view
+ */
+function describe(value: unknown): string {
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? 'unset';
+  return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
+
+function describeSlot(slot: HarpoonSlot | null | undefined): string | undefined {
+  return slot ? `${slot.title} (${slot.url})` : undefined;
+}
+
+function describeWorkspace(ws: Workspace): string {
+  return `"${ws.name}", ${ws.tabUrls.length} saved URLs${ws.color ? `, ${ws.color}` : ''}`;
+}
+
+/**
+ * Lists the changes between two states, per section
+ *
+ * @param current - Current stored state
+ * @param next - State after the import (from buildImportedState)
+ * @returns Changes keyed by section; sections not in `next` are omitted
+ */
+export function diffImport(
+  current: StorageSchema,
+  next: Partial<StorageSchema>
+): Partial<Record<StorageKey, ImportChange[]>> {
+  const diff: Partial<Record<StorageKey, ImportChange[]>> = {};
+
+  if (next.harpoon) {
+    const changes: ImportChange[] = [];
+    if (current.harpoon.maxSlots !== next.harpoon.maxSlots) {
+      changes.push({
+        path: 'Number of slots',
+        before: String(current.harpoon.maxSlots),
+        after: String(next.harpoon.maxSlots),
+      });
+    }
+    const currentLists = new Map(current.harpoon.lists.map((list) => [list.id, list]));
+    const nextLists = new Map(next.harpoon.lists.map((list) => [list.id, list]));
+    for (const list of next.harpoon.lists) {
+      const existing = currentLists.get(list.id);
+      if (!existing) {
+        changes.push({ path: `List ${list.name}`, after: 'new list' });
+      } else if (existing.name !== list.name) {
+        changes.push({ path: `List ${existing.name}`, before: describe(existing.name), after: describe(list.name) });
+      }
+      const length = Math.max(existing?.slots.length ?? 0, list.slots.length);
+      for (let i = 0; i < length; i++) {
+        const before = describeSlot(existing?.slots[i]);
+        const after = describeSlot(list.slots[i]);
+        if (before !== after) {
+          changes.push({ path: `${list.name} slot ${i + 1}`, before, after });
+        }
+      }
+    }
+    for (const list of current.harpoon.lists) {
+      if (!nextLists.has(list.id)) {
+        changes.push({ path: `List ${list.name}`, before: `${list.slots.filter(Boolean).length} slots`, after: undefined });
+      }
+    }
+    diff.harpoon = changes;
+  }
+
+  if (next.workspaces) {
+    const changes: ImportChange[] = [];
+    const currentById = new Map(current.workspaces.workspaces.map((ws) => [ws.id, ws]));
+    const nextById = new Map(next.workspaces.workspaces.map((ws) => [ws.id, ws]));
+    for (const ws of next.workspaces.workspaces) {
+      const existing = currentById.get(ws.id);
+      const after = describeWorkspace(ws);
+      const before = existing ? describeWorkspace(existing) : undefined;
+      if (before !== after) {
+        changes.push({ path: `Workspace ${ws.name}`, before, after });
+      }
+    }
+    for (const ws of current.workspaces.workspaces) {
+      if (!nextById.has(ws.id)) {
+        changes.push({ path: `Workspace ${ws.name}`, before: describeWorkspace(ws) });
+      }
+    }
+    diff.workspaces = changes;
+  }
+
+  if (next.settings) {
+    const changes: ImportChange[] = [];
+    for (const key of Object.keys(next.settings) as (keyof Settings)[]) {
+      const before = describe(current.settings[key]);
+      const after = describe(next.settings[key]);
+      if (before !== after) {
+        changes.push({ path: key, before, after });
+      }
+    }
+    diff.settings = changes;
+  }
+
+  return diff;
+}
+
+// =============================================================================
+// APPLY
+// =============================================================================
+
+/**
+ * Imports validated data into storage
+ * Takes a snapshot first, then writes all selected sections in one transaction
+ *
+ * @param incoming - Validated data (ImportValidationResult.data)
+ * @param options - Sections to import and overwrite/merge mode
+ * @param reason - Snapshot reason recorded for the pre-import backup
+ */
+export async function importData(
+  incoming: Partial<StorageSchema>,
+  options: ImportOptions = { sections: [...STORAGE_KEYS], mode: 'overwrite' },
+  reason: 'import' | 'restore' = 'import'
+): Promise<void> {
+  await takeSnapshot(reason);
+
+  await withStorageLock(async () => {
+    const current: StorageSchema = {
+      harpoon: await get('harpoon'),
+      workspaces: await get('workspaces'),
+      settings: await get('settings'),
+    };
+    const next = buildImportedState(current, incoming, options);
+
+    if (next.harpoon) await writeUnlocked('harpoon', next.harpoon);
+    if (next.workspaces) await writeUnlocked('workspaces', next.workspaces);
+    if (next.settings) await writeUnlocked('settings', next.settings);
+  });
+
+  console.log(`Import: Imported ${options.sections.join(', ')} (${options.mode})`);
+}
+
+/**
+ * Restores a snapshot by importing it over all current data
+ * The snapshot goes through the same migration and validation as a file
+ *
+ * @param snapshotId - ID of the snapshot to restore
+ * @throws If the snapshot no longer exists or fails validation
+ */
+export async function restoreSnapshot(snapshotId: string): Promise<void> {
+  const snapshot = await getSnapshot(snapshotId);
+  if (!snapshot) {
+    throw new Error('Snapshot not found - it may have been rotated out');
+  }
+
+  const { data, errors } = validateImportData(snapshot.data);
+  if (errors.length > 0) {
+    throw new Error(`Snapshot is invalid: ${errors[0]!.path} ${errors[0]!.message}`);
+  }
+
+  await importData(data, { sections: [...STORAGE_KEYS], mode: 'overwrite' }, 'restore');
+  console.log(`Import: Restored snapshot from ${new Date(snapshot.createdAt).toLocaleString()}`);
+}
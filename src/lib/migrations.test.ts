@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { VersionedStorageData } from './types';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, migrateData } from './migrations';
+
+const page = (n: number) => ({ id: 99, url: `https://example.com/${n}`, title: `Page ${n}` });
+
+describe('migrateData', () => {
+  it('upgrades unversioned data to the current version', () => {
+    const migrated = migrateData({
+      harpoon: { slots: [page(1), null, page(3)], maxSlots: 4 },
+      workspaces: { workspaces: [{ id: 'default', name: 'All' }], activeWorkspaceId: null },
+    } as unknown as VersionedStorageData);
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.harpoon).toEqual({
+      maxSlots: 4,
+      lists: [
+        {
+          id: 'default',
+          name: 'Default',
+          slots: [{ ...page(1), id: 1 }, null, { ...page(3), id: 3 }, null],
+        },
+      ],
+      activeListId: 'default',
+    });
+    expect(migrated.workspaces).toEqual({
+      workspaces: [{ id: 'default', name: 'All', tabIds: [], tabUrls: [] }],
+      activeWorkspaceId: null,
+      tabToWorkspace: {},
+    });
+  });
+
+  it('leaves current data as it is', () => {
+    const data = { schemaVersion: CURRENT_SCHEMA_VERSION, settings: { vimModeEnabled: true } };
+
+    expect(migrateData(data as VersionedStorageData)).toEqual(data);
+  });
+
+  describe('malformed sections', () => {
+    it('passes harpoon slots that are not an array through untouched', () => {
+      const harpoon = { slots: 'nope', maxSlots: 5 };
+
+      expect(migrateData({ harpoon } as unknown as VersionedStorageData).harpoon).toEqual(harpoon);
+    });
+
+    it('passes a maxSlots out of range through untouched', () => {
+      const harpoon = { slots: [page(1)], maxSlots: 50 };
+
+      expect(migrateData({ harpoon } as unknown as VersionedStorageData).harpoon).toEqual(harpoon);
+    });
+
+    it('keeps slots beyond maxSlots and entries that are not objects', () => {
+      const migrated = migrateData({
+        harpoon: { slots: [page(1), 'junk', page(3)], maxSlots: 2 },
+      } as unknown as VersionedStorageData);
+
+      expect(migrated.harpoon?.lists[0]?.slots).toEqual([{ ...page(1), id: 1 }, 'junk', { ...page(3), id: 3 }]);
+    });
+
+    it('passes a workspaces list that is not an array through untouched', () => {
+      const workspaces = { workspaces: {}, activeWorkspaceId: null };
+
+      expect(migrateData({ workspaces } as unknown as VersionedStorageData).workspaces).toEqual(workspaces);
+    });
+  });
+
+  it('refuses data from a newer version', () => {
+    expect(() => migrateData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+      `Data has schema version ${CURRENT_SCHEMA_VERSION + 1}`
+    );
+  });
+
+  it('fails when a step is missing', () => {
+    const step = MIGRATIONS[1]!;
+    delete MIGRATIONS[1];
+    try {
+      expect(() => migrateData({ schemaVersion: 1 })).toThrow('No migration registered from schema version 1');
+    } finally {
+      MIGRATIONS[1] = step;
+    }
+  });
+});
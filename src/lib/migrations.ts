@@ -0,0 +1,173 @@
+/**
+ * Storage Schema Migrations
+ *
+ * Every change to the shape of HarpoonState, WorkspaceState or Settings
+ * gets a migration here, so existing installs (and old export files) keep
+ * working after an update.
+ *
+ * Migrations are pure functions from one schema version to the next.
+ * They never touch chrome.storage - the storage layer reads the raw data,
+ * runs it through migrateData() and writes the result back.
+ */
+
+import type { HarpoonSlot, HarpoonState, Migration, VersionedStorageData } from './types';
+
+// =============================================================================
+// VERSIONING
+// =============================================================================
+
+/**
+ * Schema version written by this build of the extension
+ * Bump this and add an entry to MIGRATIONS whenever the stored shape changes
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * Data written before versioning was introduced has no schemaVersion field
+ */
+const UNVERSIONED = 0;
+
+// =============================================================================
+// LEGACY SHAPES
+// =============================================================================
+
+/**
+ * Harpoon state up to v1: a single list of slots
+ */
+interface HarpoonStateV1 {
+  slots: (HarpoonSlot | null)[];
+  maxSlots: number;
+}
+
+/**
+ * Checks for a plain (non-array) object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the harpoon section of data written before v2, if it has that shape:
+ * a slots array, and a maxSlots from 1 to 10 if there is one
+ */
+function harpoonV1(data: VersionedStorageData): Partial<HarpoonStateV1> | undefined {
+  const harpoon = data.harpoon as unknown;
+  if (!isObject(harpoon) || !Array.isArray(harpoon.slots)) return undefined;
+
+  const { maxSlots } = harpoon;
+  const validMaxSlots = typeof maxSlots === 'number' && Number.isInteger(maxSlots) && maxSlots >= 1 && maxSlots <= 10;
+  if (maxSlots !== undefined && !validMaxSlots) return undefined;
+  return harpoon as Partial<HarpoonStateV1>;
+}
+
+// =============================================================================
+// MIGRATION STEPS
+// =============================================================================
+
+/**
+ * v0 -> v1: normalizes the pre-versioning layout
+ * - Harpoon slot IDs match their index, slots array is padded to maxSlots
+ * - Workspaces always have tabIds/tabUrls arrays and a tabToWorkspace map
+ *
+ * Only fills in what is missing. A section that doesn't have the v0 shape
+ * (slots not an array, a maxSlots out of range, workspaces not a list) is
+ * passed through untouched, so the import validator and integrity checker
+ * can report it instead of it being replaced by empty state.
+ */
+export const migrateV0ToV1: Migration = (data) => {
+  const next: VersionedStorageData = { ...data };
+
+  const harpoon = harpoonV1(data);
+  if (harpoon?.slots) {
+    const maxSlots = harpoon.maxSlots ?? 5;
+    // Slots beyond maxSlots are kept; they are for the validator to flag
+    const slots = harpoon.slots.map((slot, i) => (isObject(slot) ? { ...slot, id: i + 1 } : slot));
+    while (slots.length < maxSlots) slots.push(null);
+    const migrated: HarpoonStateV1 = { ...harpoon, maxSlots, slots };
+    next.harpoon = migrated as unknown as HarpoonState;
+  }
+
+  const workspaceState = data.workspaces as unknown;
+  if (isObject(workspaceState) && Array.isArray(workspaceState.workspaces)) {
+    next.workspaces = {
+      ...data.workspaces!,
+      workspaces: workspaceState.workspaces.map((ws) =>
+        isObject(ws) ? { ...ws, tabIds: ws.tabIds ?? [], tabUrls: ws.tabUrls ?? [] } : ws
+      ),
+      tabToWorkspace: data.workspaces!.tabToWorkspace ?? {},
+    };
+  }
+
+  return next;
+};
+
+/**
+ * v1 -> v2: named harpoon lists
+ * The existing slots become the "Default" list, which is made active
+ */
+export const migrateV1ToV2: Migration = (data) => {
+  const harpoon = harpoonV1(data);
+  // Left as is if it isn't v1 harpoon state, like in migrateV0ToV1
+  if (!harpoon?.slots) return data;
+
+  const { slots, ...rest } = harpoon;
+  const migrated: HarpoonState = {
+    maxSlots: 5,
+    ...rest,
+    lists: [{ id: 'default', name: 'Default', slots }],
+    activeListId: 'default',
+  };
+  return { ...data, harpoon: migrated };
+};
+
+/**
+ * Migration steps keyed by the version they upgrade FROM
+ * MIGRATIONS[n] takes data at version n and returns data at version n + 1
+ */
+export const MIGRATIONS: Record<number, Migration> = {
+  0: migrateV0ToV1,
+  1: migrateV1ToV2,
+};
+
+// =============================================================================
+// RUNNER
+// =============================================================================
+
+/**
+ * Reads the schema version of stored or imported data
+ *
+ * @param data - Raw storage data
+ * @returns The version, or 0 for data written before versioning existed
+ */
+export function getSchemaVersion(data: VersionedStorageData): number {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : UNVERSIONED;
+}
+
+/**
+ * Upgrades data to CURRENT_SCHEMA_VERSION by applying each migration in turn
+ *
+ * @param data - Raw storage data at any known version
+ * @returns Migrated data, stamped with the current schema version
+ * @throws If the data was written by a newer version of the extension
+ */
+export function migrateData(data: VersionedStorageData): VersionedStorageData {
+  let version = getSchemaVersion(data);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Data has schema version ${version}, but this version of HyperTabs only supports up to ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = data;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration registered from schema version ${version}`);
+    }
+    migrated = migration(migrated);
+    version++;
+  }
+
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
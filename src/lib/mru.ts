@@ -0,0 +1,200 @@
+/**
+ * MRU - Most-Recently-Used Tab Tracker
+ *
+ * Records the order in which tabs were last looked at, fed by tab
+ * activation and window focus events in the service worker. Powers the
+ * "previous tab" command, the recency order of the empty Telescope query
+ * and the m: search mode.
+ *
+ * The order lives in chrome.storage.session: it survives the service worker
+ * being stopped and restarted, and is dropped with the browser session -
+ * like the tab IDs it holds.
+ */
+
+import { getActiveTab, getTabById, switchToTab } from './tabs';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Session storage key for the recency order
+ */
+const MRU_KEY = 'mru';
+
+/**
+ * Maximum number of tabs remembered
+ */
+const MAX_MRU_ENTRIES = 500;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Pending changes, chained so events apply in the order they arrived */
+let queue: Promise<void> = Promise.resolve();
+
+/** Whether the event listeners have been registered */
+let started = false;
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Gets the IDs of tabs by recency, most recently used first
+ * Waits for changes already queued in this context.
+ */
+export async function getRecentTabIds(): Promise<number[]> {
+  await queue;
+  const { [MRU_KEY]: ids } = await chrome.storage.session.get(MRU_KEY);
+  return (ids as number[] | undefined) ?? [];
+}
+
+/**
+ * Queues a change to the recency order
+ * Returning the same array skips the write.
+ */
+function enqueue(change: (ids: number[]) => number[]): void {
+  queue = queue
+    .then(async () => {
+      const { [MRU_KEY]: stored } = await chrome.storage.session.get(MRU_KEY);
+      const ids = (stored as number[] | undefined) ?? [];
+      const next = change(ids);
+      if (next !== ids) {
+        await chrome.storage.session.set({ [MRU_KEY]: next });
+      }
+    })
+    .catch((error) => {
+      console.error('MRU: Failed to update recency order:', error);
+    });
+}
+
+/**
+ * Moves a tab to the front of the recency order
+ */
+function touch(tabId: number): void {
+  enqueue((ids) =>
+    ids[0] === tabId ? ids : [tabId, ...ids.filter((id) => id !== tabId)].slice(0, MAX_MRU_ENTRIES)
+  );
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+function handleTabActivated(activeInfo: chrome.tabs.OnActivatedInfo): void {
+  touch(activeInfo.tabId);
+}
+
+function handleWindowFocusChanged(windowId: number): void {
+  // Focus left Chrome, or moved to a devtools window
+  if (windowId === chrome.windows.WINDOW_ID_NONE) return;
+
+  chrome.tabs
+    .query({ active: true, windowId })
+    .then(([tab]) => {
+      if (tab?.id !== undefined) touch(tab.id);
+    })
+    .catch(() => {
+      // The window closed before we could look it up
+    });
+}
+
+function handleTabRemoved(tabId: number): void {
+  enqueue((ids) => (ids.includes(tabId) ? ids.filter((id) => id !== tabId) : ids));
+}
+
+function handleTabReplaced(addedTabId: number, removedTabId: number): void {
+  // Same page under a new ID (prerender, discard reload) - keep its place
+  enqueue((ids) => (ids.includes(removedTabId) ? ids.map((id) => (id === removedTabId ? addedTabId : id)) : ids));
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Starts tracking tab access
+ * Call once, synchronously, at the top level of the service worker so the
+ * listeners are in place before events are dispatched to a waking worker.
+ */
+export function startMruTracking(): void {
+  if (started) return;
+  started = true;
+
+  chrome.tabs.onActivated.addListener(handleTabActivated);
+  chrome.tabs.onRemoved.addListener(handleTabRemoved);
+  chrome.tabs.onReplaced.addListener(handleTabReplaced);
+  chrome.windows.onFocusChanged.addListener(handleWindowFocusChanged);
+
+  // A fresh session starts from the tab in front of the user
+  chrome.tabs
+    .query({ active: true, lastFocusedWindow: true })
+    .then(([tab]) => {
+      if (tab?.id === undefined) return;
+      const tabId = tab.id;
+      enqueue((ids) => (ids.length === 0 ? [tabId] : ids));
+    })
+    .catch(() => {
+      // No window open yet
+    });
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Sorts items by the recency of their tab, most recently used first
+ * Items whose tab was never seen keep their order, after the others.
+ *
+ * @param items - Items to sort (not modified)
+ * @param getTabId - Gets the tab ID of an item
+ * @param recentTabIds - Tab IDs by recency, from getRecentTabIds()
+ * @returns A sorted copy of the items
+ */
+export function sortByRecency<T>(
+  items: T[],
+  getTabId: (item: T) => number | undefined,
+  recentTabIds: number[]
+): T[] {
+  const rank = new Map(recentTabIds.map((id, index) => [id, index]));
+  const rankOf = (item: T) => {
+    const tabId = getTabId(item);
+    return (tabId === undefined ? undefined : rank.get(tabId)) ?? Infinity;
+  };
+  // Array.prototype.sort is stable, so unseen tabs keep their order
+  return [...items].sort((a, b) => {
+    const rankA = rankOf(a);
+    const rankB = rankOf(b);
+    return rankA === rankB ? 0 : rankA < rankB ? -1 : 1;
+  });
+}
+
+// =============================================================================
+// PREVIOUS TAB
+// =============================================================================
+
+/**
+ * Switches to the most recently used tab other than the active one, like
+ * Alt-Tab. Pressing it again switches back.
+ *
+ * @returns True if a previous tab was found
+ */
+export async function jumpToPreviousTab(): Promise<boolean> {
+  const current = await getActiveTab();
+
+  for (const tabId of await getRecentTabIds()) {
+    if (tabId === current?.id) continue;
+    const tab = await getTabById(tabId);
+    if (tab) {
+      await switchToTab(tabId, tab.windowId);
+      console.log(`MRU: Switched to previous tab ${tabId}`);
+      return true;
+    }
+  }
+
+  console.log('MRU: No previous tab to switch to');
+  return false;
+}
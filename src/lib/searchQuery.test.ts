@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchFilterContext, SearchResult } from './types';
+import { EMPTY_FILTER_CONTEXT, getFusePatterns, matchesQueryFilters, parseSearchQuery } from './searchQuery';
+
+const tab = (overrides: Partial<SearchResult> = {}): SearchResult => ({
+  type: 'tab',
+  id: '1',
+  title: 'Pull requests',
+  url: 'https://github.com/pulls',
+  windowId: 10,
+  ...overrides,
+});
+
+const context: SearchFilterContext = {
+  windows: [{ id: 10 }, { id: 20 }] as chrome.windows.Window[],
+  groups: [{ id: 5, title: 'Sprint 12' }] as chrome.tabGroups.TabGroup[],
+  workspaceState: {
+    workspaces: [{ id: 'ws-1', name: 'Backend', tabIds: [1], tabUrls: ['https://docs.example/api'] }],
+    tabToWorkspace: { 1: 'ws-1' },
+    activeWorkspaceId: 'ws-1',
+  },
+} as unknown as SearchFilterContext;
+
+const passes = (query: string, result: SearchResult) =>
+  matchesQueryFilters(result, parseSearchQuery(query), context);
+
+describe('parseSearchQuery', () => {
+  it('picks the mode from a leading prefix', () => {
+    expect(parseSearchQuery('h:google')).toEqual({
+      mode: 'history',
+      terms: [{ kind: 'text', pattern: 'google', negated: false }],
+      errors: [],
+    });
+  });
+
+  it('searches host:port and other word:value terms as text', () => {
+    for (const token of ['localhost:3000', 'TODO:', 'about:blank', 'mailto:x', 'note:foo']) {
+      expect(parseSearchQuery(token)).toEqual({
+        mode: 'tabs',
+        terms: [{ kind: 'text', pattern: token, negated: false }],
+        errors: [],
+      });
+    }
+  });
+
+  it('searches pasted URLs as text, even with a filter name as scheme', () => {
+    const { terms, errors } = parseSearchQuery('https://github.com/pulls ws://localhost:8080');
+
+    expect(terms).toEqual([
+      { kind: 'text', pattern: 'https://github.com/pulls', negated: false },
+      { kind: 'text', pattern: 'ws://localhost:8080', negated: false },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('negates terms with a leading - or !', () => {
+    expect(parseSearchQuery('-domain:youtube.com !draft -"release notes"').terms).toEqual([
+      { kind: 'filter', field: 'domain', value: 'youtube.com', negated: true },
+      { kind: 'text', pattern: 'draft', negated: true },
+      { kind: 'phrase', text: 'release notes', negated: true },
+    ]);
+  });
+
+  it('keeps quoted phrases together', () => {
+    const query = parseSearchQuery('"hooks guide" react');
+
+    expect(query.terms).toEqual([
+      { kind: 'phrase', text: 'hooks guide', negated: false },
+      { kind: 'text', pattern: 'react', negated: false },
+    ]);
+    expect(getFusePatterns(query)).toEqual([`'"hooks guide"`, 'react']);
+  });
+
+  it('parses quoted filter values', () => {
+    expect(parseSearchQuery('group:"Sprint 12"').terms).toEqual([
+      { kind: 'filter', field: 'group', value: 'Sprint 12', negated: false },
+    ]);
+  });
+
+  it('reports filters with a missing or bad value', () => {
+    const { terms, errors } = parseSearchQuery('domain: window:0 is:loud');
+
+    expect(terms).toEqual([]);
+    expect(errors.map((error) => error.token)).toEqual(['domain:', 'window:0', 'is:loud']);
+  });
+});
+
+describe('matchesQueryFilters', () => {
+  it('filters by domain, including subdomains', () => {
+    expect(passes('domain:github.com', tab({ url: 'https://gist.github.com/x' }))).toBe(true);
+    expect(passes('domain:github.com', tab({ url: 'https://notgithub.com/' }))).toBe(false);
+    expect(passes('-domain:github.com', tab())).toBe(false);
+  });
+
+  it('filters by window number, counted from 1', () => {
+    expect(passes('window:1', tab())).toBe(true);
+    expect(passes('window:2', tab())).toBe(false);
+    expect(passes('window:1', tab({ type: 'history', windowId: undefined }))).toBe(false);
+  });
+
+  it('filters by workspace name', () => {
+    expect(passes('ws:back', tab())).toBe(true);
+    expect(passes('ws:back', tab({ id: '2' }))).toBe(false);
+    expect(passes('ws:back', tab({ type: 'history', id: 'h1', url: 'https://docs.example/api' }))).toBe(true);
+  });
+
+  it('filters by tab state', () => {
+    expect(passes('is:Pinned', tab({ pinned: true }))).toBe(true);
+    expect(passes('is:audible', tab({ audible: false }))).toBe(false);
+    expect(passes('-is:discarded', tab({ discarded: true }))).toBe(false);
+  });
+
+  it('filters by group title', () => {
+    expect(passes('group:sprint', tab({ groupId: 5 }))).toBe(true);
+    expect(passes('group:sprint', tab())).toBe(false);
+  });
+
+  it('excludes results that literally contain a negated word', () => {
+    const query = parseSearchQuery('-pulls');
+
+    expect(matchesQueryFilters(tab(), query, EMPTY_FILTER_CONTEXT)).toBe(false);
+    expect(matchesQueryFilters(tab({ title: 'Issues', url: 'https://github.com/issues' }), query, EMPTY_FILTER_CONTEXT)).toBe(true);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Search Query - Telescope's Query Language
+ *
+ * Turns what is typed into the Telescope input into a list of terms that
+ * every search mode evaluates the same way:
+ *
+ *   h: react -domain:youtube.com "hooks guide" is:pinned window:2
+ *
+ * - A leading `h:`, `b:`, `m:` or `e:` picks the search mode
+ * - Words are fuzzy matched against title and URL; Fuse extended-search
+ *   operators work too (`^prefix`, `'exact`, `suffix$`, `=whole`)
+ * - "Quoted phrases" are matched literally
+ * - `field:value` filters: domain, window, ws, is, group; any other
+ *   `word:value` is a plain word
+ * - A leading `-` (or `!`) negates any term
+ *
+ * Parsing and filtering are pure; the fuzzy part is left to telescope.ts.
+ */
+
+import type {
+  ParsedSearchQuery,
+  SearchFilterContext,
+  SearchFilterField,
+  SearchMode,
+  SearchQueryError,
+  SearchQueryTerm,
+  SearchResult,
+  SearchTabState,
+} from './types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Search mode prefixes
+ * Users can type these at the start of their query to switch modes
+ */
+const MODE_PREFIXES: { mode: SearchMode; prefix: string }[] = [
+  { mode: 'history', prefix: 'h:' },
+  { mode: 'bookmarks', prefix: 'b:' },
+  { mode: 'recent', prefix: 'm:' },
+  { mode: 'everything', prefix: 'e:' },
+];
+
+/**
+ * Filter fields, as typed before the colon
+ */
+const FILTER_FIELDS: SearchFilterField[] = ['domain', 'window', 'ws', 'is', 'group'];
+
+/**
+ * Values `is:` accepts
+ */
+const TAB_STATES: SearchTabState[] = ['pinned', 'audible', 'muted', 'discarded'];
+
+/**
+ * Context for searches that have no tab snapshot or workspaces at hand
+ */
+export const EMPTY_FILTER_CONTEXT: SearchFilterContext = {
+  windows: [],
+  groups: [],
+  workspaceState: null,
+};
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Splits a query at whitespace, keeping "quoted parts" together
+ * An unterminated quote runs to the end of the query.
+ */
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of input) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && /\s/.test(char)) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+
+  return tokens;
+}
+
+/**
+ * Removes the quotes around a "quoted" value
+ */
+function unquote(value: string): string {
+  if (!value.startsWith('"')) return value;
+  return value.endsWith('"') && value.length > 1 ? value.slice(1, -1) : value.slice(1);
+}
+
+/**
+ * Checks a filter's value
+ *
+ * @returns An error message, or null if the value is usable
+ */
+function validateFilter(field: SearchFilterField, value: string): string | null {
+  if (value === '') return `${field}: needs a value`;
+
+  switch (field) {
+    case 'window':
+      return /^[1-9]\d*$/.test(value) ? null : 'window: expects a window number, e.g. window:2';
+    case 'is':
+      return (TAB_STATES as string[]).includes(value)
+        ? null
+        : `is: expects ${TAB_STATES.slice(0, -1).join(', ')} or ${TAB_STATES[TAB_STATES.length - 1]}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a single token into a term
+ *
+ * @returns The term, an error, or null for tokens that mean nothing
+ */
+function parseToken(token: string): SearchQueryTerm | SearchQueryError | null {
+  let body = token;
+  let negated = false;
+  if (body.length > 1 && (body.startsWith('-') || body.startsWith('!'))) {
+    negated = true;
+    body = body.slice(1);
+  }
+
+  // "quoted phrase"
+  if (body.startsWith('"')) {
+    const text = unquote(body);
+    return text ? { kind: 'phrase', text, negated } : null;
+  }
+
+  // field:value - except pasted URLs like ws://... Any other word:value
+  // (localhost:3000, TODO:, mailto:x) is searched for as text.
+  const [, name = '', rawValue = ''] = /^([a-zA-Z]+):(.*)$/.exec(body) ?? [];
+  const field = name.toLowerCase() as SearchFilterField;
+  if (FILTER_FIELDS.includes(field) && !rawValue.startsWith('//')) {
+    const value = field === 'is' ? unquote(rawValue).toLowerCase() : unquote(rawValue);
+    const problem = validateFilter(field, value);
+    if (problem) return { token, message: problem };
+    return { kind: 'filter', field, value, negated };
+  }
+
+  return { kind: 'text', pattern: body, negated };
+}
+
+/**
+ * Parses a search query into its mode and terms
+ *
+ * @param query - Raw query string from input
+ * @returns Mode, terms, and the parts that could not be understood
+ *
+ * @example
+ * parseSearchQuery('h:google')
+ * // { mode: 'history', terms: [{ kind: 'text', pattern: 'google', negated: false }], errors: [] }
+ * parseSearchQuery('-domain:youtube.com is:audible')
+ * // { mode: 'tabs', terms: [{ kind: 'filter', field: 'domain', ... negated: true }, ...], errors: [] }
+ * parseSearchQuery('is:loud localhost:3000')
+ * // { mode: 'tabs', terms: [{ kind: 'text', pattern: 'localhost:3000', ... }], errors: [{ token: 'is:loud', ... }] }
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  let rest = query.trim();
+  let mode: SearchMode = 'tabs';
+
+  for (const entry of MODE_PREFIXES) {
+    if (rest.toLowerCase().startsWith(entry.prefix)) {
+      mode = entry.mode;
+      rest = rest.slice(entry.prefix.length);
+      break;
+    }
+  }
+
+  const terms: SearchQueryTerm[] = [];
+  const errors: SearchQueryError[] = [];
+  for (const token of tokenize(rest)) {
+    const parsed = parseToken(token);
+    if (!parsed) continue;
+    if ('message' in parsed) {
+      errors.push(parsed);
+    } else {
+      terms.push(parsed);
+    }
+  }
+
+  return { mode, terms, errors };
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Gets the patterns to hand to Fuse: the terms that are not negated and
+ * not filters. Phrases become Fuse's quoted include-match.
+ *
+ * @param query - The parsed query
+ * @returns Extended-search patterns, all of which must match
+ */
+export function getFusePatterns(query: ParsedSearchQuery): string[] {
+  const patterns: string[] = [];
+  for (const term of query.terms) {
+    if (term.negated) continue;
+    if (term.kind === 'text') patterns.push(term.pattern);
+    if (term.kind === 'phrase') patterns.push(`'"${term.text}"`);
+  }
+  return patterns;
+}
+
+/**
+ * Gets the query's plain words, without operators, for searches that go
+ * through Chrome first (history)
+ *
+ * @param query - The parsed query
+ * @returns Space-separated words ('' if there are none)
+ */
+export function getPlainText(query: ParsedSearchQuery): string {
+  const words: string[] = [];
+  for (const term of query.terms) {
+    if (term.negated) continue;
+    if (term.kind === 'text') words.push(stripOperators(term.pattern).text);
+    if (term.kind === 'phrase') words.push(term.text);
+  }
+  return words.filter(Boolean).join(' ');
+}
+
+/**
+ * Text to look for literally, and where in the title or URL it must be
+ */
+interface Literal {
+  text: string;
+  position: 'start' | 'end' | 'whole' | 'anywhere';
+}
+
+/**
+ * Splits a Fuse extended-search pattern into its operator and text
+ */
+function stripOperators(pattern: string): Literal {
+  if (pattern.startsWith('^')) return { text: pattern.slice(1), position: 'start' };
+  if (pattern.startsWith('=')) return { text: pattern.slice(1), position: 'whole' };
+  if (pattern.startsWith("'")) return { text: pattern.slice(1), position: 'anywhere' };
+  if (pattern.endsWith('$')) return { text: pattern.slice(0, -1), position: 'end' };
+  return { text: pattern, position: 'anywhere' };
+}
+
+/**
+ * Whether a result's title or URL literally contains some text
+ * Used for negated terms, where "fuzzy doesn't match" would exclude too much.
+ */
+function matchesLiteral(result: SearchResult, { text, position }: Literal): boolean {
+  const needle = text.toLowerCase();
+  if (!needle) return false;
+
+  return [result.title, result.url].some((field) => {
+    const haystack = field.toLowerCase();
+    switch (position) {
+      case 'start':
+        return haystack.startsWith(needle);
+      case 'end':
+        return haystack.endsWith(needle);
+      case 'whole':
+        return haystack === needle;
+      case 'anywhere':
+        return haystack.includes(needle);
+    }
+  });
+}
+
+/**
+ * Gets the host name of a URL, or '' if it isn't one
+ */
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Whether a result passes a filter (ignoring negation)
+ * Results that lack the field, e.g. history entries for `window:`, don't.
+ */
+function matchesFilter(
+  result: SearchResult,
+  field: SearchFilterField,
+  value: string,
+  context: SearchFilterContext
+): boolean {
+  const needle = value.toLowerCase();
+
+  switch (field) {
+    case 'domain': {
+      // github.com also covers gist.github.com
+      const hostname = getHostname(result.url);
+      return hostname === needle || hostname.endsWith(`.${needle}`);
+    }
+
+    case 'window': {
+      // Counted from 1, in the order Chrome lists windows
+      if (result.windowId === undefined) return false;
+      const position = context.windows.findIndex((win) => win.id === result.windowId);
+      return position + 1 === Number(value);
+    }
+
+    case 'ws': {
+      const state = context.workspaceState;
+      if (!state) return false;
+      // Open tabs by assignment, workspaces themselves by ID, anything else
+      // by the workspace's saved URLs
+      const workspaces = state.workspaces.filter((ws) => {
+        switch (result.type) {
+          case 'tab':
+            return ws.id === state.tabToWorkspace[Number(result.id)];
+          case 'workspace':
+            return ws.id === result.id;
+          default:
+            return ws.tabUrls.includes(result.url);
+        }
+      });
+      return workspaces.some((ws) => ws.name.toLowerCase().includes(needle));
+    }
+
+    case 'is':
+      return result[needle as SearchTabState] === true;
+
+    case 'group': {
+      if (result.groupId === undefined) return false;
+      const group = context.groups.find((entry) => entry.id === result.groupId);
+      return (group?.title ?? '').toLowerCase().includes(needle);
+    }
+  }
+}
+
+/**
+ * Whether a result passes every filter and negated term of a query
+ * Positive text and phrase terms are left to Fuse (see getFusePatterns).
+ *
+ * @param result - The result to test
+ * @param query - The parsed query
+ * @param context - Windows, groups and workspaces the filters refer to
+ */
+export function matchesQueryFilters(
+  result: SearchResult,
+  query: ParsedSearchQuery,
+  context: SearchFilterContext
+): boolean {
+  return query.terms.every((term) => {
+    if (term.kind === 'filter') {
+      return matchesFilter(result, term.field, term.value, context) !== term.negated;
+    }
+    if (!term.negated) return true;
+    const literal: Literal = term.kind === 'phrase'
+      ? { text: term.text, position: 'anywhere' }
+      : stripOperators(term.pattern);
+    return !matchesLiteral(result, literal);
+  });
+}
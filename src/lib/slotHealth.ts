@@ -0,0 +1,247 @@
+/**
+ * Slot Health - Dead and Redirected Harpoon Slots
+ *
+ * Watches main-frame loads in the service worker (webNavigation events,
+ * all reported locally by Chrome) and flags the harpoon slots whose page
+ * failed to load or redirected elsewhere - a dead domain, a moved page, a
+ * session that expired and bounced to a login screen. A later clean load
+ * of the slot's page clears the flag.
+ *
+ * webNavigation doesn't report HTTP status codes, so a page that loads
+ * with a 404 or 500 status isn't flagged - only network errors and
+ * redirects are.
+ *
+ * Flags are written without journaling, like other automatic updates;
+ * acting on them (following a redirect, clearing dead slots) is undoable.
+ */
+
+import type { HarpoonSlot, HarpoonState, SlotHealth } from './types';
+import { update } from './storage';
+import { journaledUpdate } from './history';
+import { getActiveSlots, getHarpoonState, withActiveSlots } from './harpoon';
+import { matchesUrl } from './urlMatch';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Load errors that say nothing about the page: the user stopped it or
+ * navigated away, the browser is offline, or an extension blocked it
+ */
+const IGNORED_ERRORS = new Set([
+  'net::ERR_ABORTED',
+  'net::ERR_INTERNET_DISCONNECTED',
+  'net::ERR_NETWORK_CHANGED',
+  'net::ERR_NETWORK_IO_SUSPENDED',
+  'net::ERR_BLOCKED_BY_CLIENT',
+]);
+
+/**
+ * Readable descriptions of common load errors
+ */
+const ERROR_LABELS: Record<string, string> = {
+  'net::ERR_NAME_NOT_RESOLVED': 'Site not found',
+  'net::ERR_CONNECTION_REFUSED': 'Connection refused',
+  'net::ERR_CONNECTION_TIMED_OUT': 'Connection timed out',
+  'net::ERR_CONNECTION_RESET': 'Connection reset',
+  'net::ERR_ADDRESS_UNREACHABLE': 'Address unreachable',
+  'net::ERR_CERT_DATE_INVALID': 'Certificate expired',
+  'net::ERR_CERT_COMMON_NAME_INVALID': 'Certificate invalid',
+  'net::ERR_CERT_AUTHORITY_INVALID': 'Certificate invalid',
+  'net::ERR_TOO_MANY_REDIRECTS': 'Redirect loop',
+};
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** URL each tab's main frame is loading, from onBeforeNavigate */
+const pendingUrls = new Map<number, string>();
+
+/** URL last committed in each tab's main frame - where a client redirect came from */
+const committedUrls = new Map<number, string>();
+
+/** Whether the event listeners have been registered */
+let started = false;
+
+// =============================================================================
+// LABELS
+// =============================================================================
+
+/**
+ * Short description of a slot's problem, for tooltips and menu titles
+ *
+ * @param health - The slot's health
+ * @returns e.g. "Site not found" or "Redirected to login.example.com"
+ */
+export function getSlotHealthLabel(health: SlotHealth): string {
+  if (health.status === 'redirected') {
+    let target = health.redirectUrl ?? 'another page';
+    try {
+      target = new URL(target).host || target;
+    } catch {
+      // Not a parseable URL - show it as is
+    }
+    return `Redirected to ${target}`;
+  }
+  const error = health.error ?? '';
+  return ERROR_LABELS[error] ?? (error ? `Failed to load (${error.replace(/^net::/, '')})` : 'Failed to load');
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Whether two health values describe the same problem
+ */
+function isSameHealth(a: SlotHealth | undefined, b: SlotHealth | undefined): boolean {
+  return a?.status === b?.status && a?.error === b?.error && a?.redirectUrl === b?.redirectUrl;
+}
+
+/**
+ * Sets the health of every slot, in every list, whose page a URL is
+ * Slots already in that state keep their `since` time.
+ *
+ * @param url - The URL that was loaded
+ * @param health - The outcome, undefined for a clean load
+ * @param exceptUrl - Leave slots alone that also match this URL (the redirect target)
+ */
+async function recordOutcome(url: string, health: SlotHealth | undefined, exceptUrl?: string): Promise<void> {
+  const affects = (slot: HarpoonSlot | null): slot is HarpoonSlot =>
+    !!slot &&
+    matchesUrl(slot, url) &&
+    !(exceptUrl && matchesUrl(slot, exceptUrl)) &&
+    !isSameHealth(slot.health, health);
+
+  // Cheap check first - this runs for every page load in the browser
+  const current = await getHarpoonState();
+  if (!current.lists.some((list) => list.slots.some(affects))) return;
+
+  await update('harpoon', (state) => {
+    let changed = false;
+    const lists = state.lists.map((list) => {
+      if (!list.slots.some(affects)) return list;
+      changed = true;
+      return { ...list, slots: list.slots.map((slot) => (affects(slot) ? { ...slot, health } : slot)) };
+    });
+    return changed ? { ...state, lists } : state;
+  });
+
+  console.log(`SlotHealth: ${health ? getSlotHealthLabel(health) : 'Loaded'}: ${url}`);
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+function handleBeforeNavigate(details: chrome.webNavigation.WebNavigationBaseCallbackDetails): void {
+  if (details.frameId !== 0) return;
+  pendingUrls.set(details.tabId, details.url);
+}
+
+function handleCommitted(details: chrome.webNavigation.WebNavigationTransitionCallbackDetails): void {
+  if (details.frameId !== 0) return;
+
+  const qualifiers = details.transitionQualifiers;
+  const clientRedirect = qualifiers.includes('client_redirect');
+  const redirected = clientRedirect || qualifiers.includes('server_redirect');
+  const source = clientRedirect ? committedUrls.get(details.tabId) : pendingUrls.get(details.tabId);
+
+  pendingUrls.delete(details.tabId);
+  committedUrls.set(details.tabId, details.url);
+
+  const outcomes: Promise<void>[] = [recordOutcome(details.url, undefined)];
+  if (redirected && source && source !== details.url) {
+    outcomes.push(
+      recordOutcome(source, { status: 'redirected', redirectUrl: details.url, since: Date.now() }, details.url)
+    );
+  }
+  Promise.all(outcomes).catch((error) => {
+    console.error('SlotHealth: Failed to record page load:', error);
+  });
+}
+
+function handleErrorOccurred(details: chrome.webNavigation.WebNavigationFramedErrorCallbackDetails): void {
+  if (details.frameId !== 0) return;
+
+  const source = pendingUrls.get(details.tabId) ?? details.url;
+  pendingUrls.delete(details.tabId);
+  if (IGNORED_ERRORS.has(details.error)) return;
+
+  recordOutcome(source, { status: 'unreachable', error: details.error, since: Date.now() }).catch((error) => {
+    console.error('SlotHealth: Failed to record load error:', error);
+  });
+}
+
+function handleTabRemoved(tabId: number): void {
+  pendingUrls.delete(tabId);
+  committedUrls.delete(tabId);
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Starts watching page loads for harpoon slot health
+ * Call once, synchronously, at the top level of the service worker so the
+ * listeners are in place before events are dispatched to a waking worker.
+ * Navigations already underway when the worker started are not judged.
+ */
+export function startSlotHealthTracking(): void {
+  if (started) return;
+  started = true;
+
+  chrome.webNavigation.onBeforeNavigate.addListener(handleBeforeNavigate);
+  chrome.webNavigation.onCommitted.addListener(handleCommitted);
+  chrome.webNavigation.onErrorOccurred.addListener(handleErrorOccurred);
+  chrome.tabs.onRemoved.addListener(handleTabRemoved);
+}
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/**
+ * Points redirected slots of the active list at the URL they redirected to
+ *
+ * @param slotId - Slot number (1-indexed), or undefined for every redirected slot
+ * @returns The harpoon state after the write
+ */
+export async function followSlotRedirects(slotId?: number): Promise<HarpoonState> {
+  const label = slotId === undefined ? 'Follow redirects' : `Follow redirect of slot ${slotId}`;
+  return await journaledUpdate(label, 'harpoon', (state) => {
+    const slots = getActiveSlots(state);
+    const follows = (slot: HarpoonSlot | null, index: number): slot is HarpoonSlot =>
+      !!slot?.health?.redirectUrl && (slotId === undefined || index === slotId - 1);
+    if (!slots.some(follows)) return state;
+
+    return withActiveSlots(
+      state,
+      slots.map((slot, index) =>
+        follows(slot, index) ? { ...slot, url: slot.health!.redirectUrl!, health: undefined } : slot
+      )
+    );
+  });
+}
+
+/**
+ * Empties the slots of the active list whose page failed to load
+ *
+ * @returns The harpoon state after the write
+ */
+export async function clearDeadSlots(): Promise<HarpoonState> {
+  const state = await journaledUpdate('Clear dead slots', 'harpoon', (state) => {
+    const slots = getActiveSlots(state);
+    if (!slots.some((slot) => slot?.health?.status === 'unreachable')) return state;
+    return withActiveSlots(
+      state,
+      slots.map((slot) => (slot?.health?.status === 'unreachable' ? null : slot))
+    );
+  });
+
+  console.log('SlotHealth: Cleared dead slots');
+  return state;
+}
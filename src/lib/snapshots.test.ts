@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { VersionedStorageData } from './types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { summarizeSnapshot } from './snapshots';
+
+describe('summarizeSnapshot', () => {
+  it('counts slots, workspaces and URLs of an old snapshot', () => {
+    const summary = summarizeSnapshot({
+      harpoon: { slots: [{ url: 'https://a.example', title: 'A' }, null], maxSlots: 2 },
+      workspaces: {
+        workspaces: [{ id: 'default', name: 'Default', tabUrls: ['https://a.example', 'https://b.example'] }],
+        activeWorkspaceId: null,
+      },
+    } as unknown as VersionedStorageData);
+
+    expect(summary).toEqual({ harpoonSlots: 1, workspaces: 1, workspaceUrls: 2 });
+  });
+
+  it('returns null for a snapshot taken by a newer version', () => {
+    expect(summarizeSnapshot({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toBeNull();
+  });
+
+  it('counts malformed sections as empty', () => {
+    const summary = summarizeSnapshot({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      harpoon: { slots: 'nope' },
+      workspaces: { workspaces: [null] },
+    } as unknown as VersionedStorageData);
+
+    expect(summary).toEqual({ harpoonSlots: 0, workspaces: 1, workspaceUrls: 0 });
+  });
+});
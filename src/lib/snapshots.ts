@@ -0,0 +1,145 @@
+/**
+ * Snapshots - Rolling Local Backups
+ *
+ * Keeps a bounded ring of timestamped copies of all extension data in
+ * chrome.storage.local. Snapshots are taken on an interval by the service
+ * worker and right before destructive operations (clearing harpoon,
+ * deleting a workspace, importing), so a mistake is always one click away
+ * from being undone.
+ *
+ * Restoring goes through the regular import pipeline (see importer.ts).
+ */
+
+import type { Snapshot, SnapshotReason, VersionedStorageData } from './types';
+import { getAll, withStorageLock } from './storage';
+import { migrateData } from './migrations';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Storage key holding the snapshot ring
+ */
+const SNAPSHOTS_KEY = 'snapshots';
+
+/**
+ * Maximum number of snapshots kept - the oldest is dropped first
+ */
+export const MAX_SNAPSHOTS = 10;
+
+/**
+ * Name and period of the alarm that drives interval snapshots
+ */
+export const SNAPSHOT_ALARM_NAME = 'hypertabs-snapshot';
+export const SNAPSHOT_INTERVAL_MINUTES = 60;
+
+// =============================================================================
+// SNAPSHOT OPERATIONS
+// =============================================================================
+
+/**
+ * Gets all snapshots, newest first
+ */
+export async function listSnapshots(): Promise<Snapshot[]> {
+  const { [SNAPSHOTS_KEY]: snapshots } = await chrome.storage.local.get(SNAPSHOTS_KEY);
+  return (snapshots as Snapshot[] | undefined) ?? [];
+}
+
+/**
+ * Gets a single snapshot by ID
+ *
+ * @param snapshotId - ID of the snapshot
+ * @returns The snapshot, or undefined if it has rotated out
+ */
+export async function getSnapshot(snapshotId: string): Promise<Snapshot | undefined> {
+  const snapshots = await listSnapshots();
+  return snapshots.find((snapshot) => snapshot.id === snapshotId);
+}
+
+/**
+ * Takes a snapshot of all extension data
+ * Interval snapshots are skipped when nothing changed since the last one
+ *
+ * @param reason - What triggered the snapshot
+ * @returns The new snapshot, or null if it was skipped
+ */
+export async function takeSnapshot(reason: SnapshotReason): Promise<Snapshot | null> {
+  return await withStorageLock(async () => {
+    const data = await getAll();
+    const json = JSON.stringify(data);
+    const snapshots = await listSnapshots();
+
+    const latest = snapshots[0];
+    if (reason === 'interval' && latest && JSON.stringify(latest.data) === json) {
+      return null;
+    }
+
+    const snapshot: Snapshot = {
+      id: `snap_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: Date.now(),
+      reason,
+      size: new TextEncoder().encode(json).length,
+      data,
+    };
+
+    await chrome.storage.local.set({
+      [SNAPSHOTS_KEY]: [snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS),
+    });
+
+    console.log(`Snapshots: Took ${reason} snapshot (${snapshot.size} bytes)`);
+    return snapshot;
+  });
+}
+
+/**
+ * Deletes a snapshot
+ *
+ * @param snapshotId - ID of the snapshot to delete
+ */
+export async function deleteSnapshot(snapshotId: string): Promise<void> {
+  await withStorageLock(async () => {
+    const snapshots = await listSnapshots();
+    await chrome.storage.local.set({
+      [SNAPSHOTS_KEY]: snapshots.filter((snapshot) => snapshot.id !== snapshotId),
+    });
+  });
+}
+
+// =============================================================================
+// SUMMARIES
+// =============================================================================
+
+/**
+ * Counts what a snapshot contains, for display
+ * Snapshots taken by older versions are migrated first; sections that are
+ * malformed count as empty
+ *
+ * @param data - Snapshot data
+ * @returns Number of filled harpoon slots (across all lists), workspaces
+ *          and workspace URLs, or null for a snapshot taken by a newer
+ *          version of the extension, which can't be read
+ */
+export function summarizeSnapshot(data: VersionedStorageData): {
+  harpoonSlots: number;
+  workspaces: number;
+  workspaceUrls: number;
+} | null {
+  let current: VersionedStorageData;
+  try {
+    current = migrateData(data);
+  } catch {
+    return null;
+  }
+
+  const lists = Array.isArray(current.harpoon?.lists) ? current.harpoon.lists : [];
+  const workspaces = Array.isArray(current.workspaces?.workspaces) ? current.workspaces.workspaces : [];
+  return {
+    harpoonSlots: lists.flatMap((list) => (Array.isArray(list?.slots) ? list.slots : [])).filter(Boolean).length,
+    workspaces: workspaces.length,
+    workspaceUrls: workspaces.reduce(
+      (total, ws) => total + (Array.isArray(ws?.tabUrls) ? ws.tabUrls.length : 0),
+      0
+    ),
+  };
+}
@@ -4,8 +4,8 @@
  * Provides a clean API for interacting with chrome.storage.local.
  * All extension data is stored locally for privacy.
  * 
- * In the future, this could be extended to support chrome.storage.sync
- * for optional cloud synchronization.
+ * chrome.storage.local is always the source of truth. Optional mirroring
+ * to chrome.storage.sync lives in sync.ts.
  */
 
 import type {
@@ -14,7 +14,23 @@ import type {
   HarpoonState,
   WorkspaceState,
   Settings,
+  VersionedStorageData,
 } from './types';
+import { migrateData, getSchemaVersion } from './migrations';
+
+// =============================================================================
+// KEYS
+// =============================================================================
+
+/**
+ * All keys that make up the extension's persisted state
+ */
+export const STORAGE_KEYS: readonly StorageKey[] = ['harpoon', 'workspaces', 'settings'];
+
+/**
+ * Key under which the schema version is stored, next to the state keys
+ */
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
 
 // =============================================================================
 // DEFAULT VALUES
@@ -24,7 +40,14 @@ import type {
  * Default harpoon state for new installations
  */
 export const DEFAULT_HARPOON_STATE: HarpoonState = {
-  slots: [null, null, null, null, null], // 5 empty slots by default
+  lists: [
+    {
+      id: 'default',
+      name: 'Default',
+      slots: [null, null, null, null, null], // 5 empty slots by default
+    },
+  ],
+  activeListId: 'default',
   maxSlots: 5,
 };
 
@@ -56,16 +79,28 @@ export const DEFAULT_SETTINGS: Settings = {
   // Harpoon
   harpoonMaxSlots: 5,
   harpoonReopenClosed: true,
+  harpoonReopenFallback: 'current-window',
 
   // Telescope
   telescopeShowUrls: true,
   telescopeMaxResults: 50,
+  telescopeSourceWeights: {
+    tab: 1,
+    harpoon: 1,
+    workspace: 0.9,
+    bookmark: 0.8,
+    history: 0.6,
+  },
+  telescopeFrecencyBlend: 0.3,
 
   // Workspaces
   defaultWorkspaceName: 'Default',
 
   // UI
   theme: 'system',
+
+  // Sync
+  syncEnabled: false,
 };
 
 // =============================================================================
@@ -83,10 +118,30 @@ export async function get<K extends StorageKey>(
   key: K
 ): Promise<StorageSchema[K]> {
   const result = await chrome.storage.local.get(key);
-  
+  return withDefaults(key, result[key] as StorageSchema[K] | undefined);
+}
+
+/**
+ * Fills in defaults for a raw stored value
+ * Shared by get() and anything that receives values straight from
+ * chrome.storage.onChanged, so both see the same shape.
+ * 
+ * @param key - The storage key the value belongs to
+ * @param value - The stored value, or undefined if the key is missing
+ * @returns The value with defaults applied
+ */
+export function withDefaults<K extends StorageKey>(
+  key: K,
+  value: StorageSchema[K] | undefined
+): StorageSchema[K] {
   // Return stored value or appropriate default
-  if (result[key] !== undefined) {
-    return result[key] as StorageSchema[K];
+  if (value !== undefined) {
+    // Settings added after install are filled in from defaults, so purely
+    // additive settings don't need a schema migration
+    if (key === 'settings') {
+      return { ...DEFAULT_SETTINGS, ...value } as StorageSchema[K];
+    }
+    return value;
   }
 
   // Return defaults based on key
@@ -102,8 +157,60 @@ export async function get<K extends StorageKey>(
   }
 }
 
+/**
+ * Name of the Web Lock that serializes writes across the popup, options page
+ * and service worker. All extension contexts share one origin, so they all
+ * see the same lock.
+ */
+const STORAGE_LOCK_NAME = 'hypertabs-storage';
+
+/**
+ * Fallback queue for contexts without the Web Locks API
+ * Only serializes writes made from the current context
+ */
+let fallbackQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a task while holding the storage write lock
+ * Tasks run one at a time, in the order they were requested, across every
+ * extension context. Use this to group several reads and writes into one
+ * atomic transaction.
+ * 
+ * The lock is not re-entrant: the task must not call set(), update(),
+ * importData() or withStorageLock() itself, or it will wait forever.
+ * Use writeUnlocked() for writes inside the task instead.
+ * 
+ * @param task - Async function to run under the lock
+ * @returns The task's result
+ */
+export async function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return await navigator.locks.request(STORAGE_LOCK_NAME, task);
+  }
+
+  const run = fallbackQueue.then(task, task);
+  fallbackQueue = run.catch(() => undefined);
+  return await run;
+}
+
+/**
+ * Writes a value without taking the lock
+ * Only for use inside a withStorageLock() task
+ * 
+ * @param key - The storage key to set
+ * @param value - The value to store
+ */
+export async function writeUnlocked<K extends StorageKey>(
+  key: K,
+  value: StorageSchema[K]
+): Promise<void> {
+  await chrome.storage.local.set({ [key]: value });
+}
+
 /**
  * Stores a value in chrome.storage.local
+ * Queued behind any in-flight update() so it can't be overwritten by a
+ * stale read-modify-write
  * 
  * @param key - The storage key to set
  * @param value - The value to store
@@ -112,24 +219,35 @@ export async function set<K extends StorageKey>(
   key: K,
   value: StorageSchema[K]
 ): Promise<void> {
-  await chrome.storage.local.set({ [key]: value });
+  await withStorageLock(() => writeUnlocked(key, value));
 }
 
 /**
  * Updates a stored value using a callback function
- * This is useful for atomic updates where you need the current value
+ * The read, the updater and the write all happen under the storage lock,
+ * so concurrent updates from any context are applied one after another
+ * and none of them is lost.
+ * 
+ * The updater must be synchronous and free of side effects - do any async
+ * work (tab lookups etc.) before calling update(). Returning the current
+ * value unchanged skips the write.
  * 
  * @param key - The storage key to update
  * @param updater - Function that receives current value and returns updated value
+ * @returns The value as written to storage
  */
 export async function update<K extends StorageKey>(
   key: K,
   updater: (current: StorageSchema[K]) => StorageSchema[K]
 ): Promise<StorageSchema[K]> {
-  const current = await get(key);
-  const updated = updater(current);
-  await set(key, updated);
-  return updated;
+  return await withStorageLock(async () => {
+    const current = await get(key);
+    const updated = updater(current);
+    if (updated !== current) {
+      await writeUnlocked(key, updated);
+    }
+    return updated;
+  });
 }
 
 /**
@@ -138,41 +256,43 @@ export async function update<K extends StorageKey>(
  * @param key - The storage key to remove
  */
 export async function remove(key: StorageKey): Promise<void> {
-  await chrome.storage.local.remove(key);
+  await withStorageLock(() => chrome.storage.local.remove(key));
 }
 
 /**
  * Clears all extension storage (use with caution!)
  */
 export async function clear(): Promise<void> {
-  await chrome.storage.local.clear();
+  await withStorageLock(() => chrome.storage.local.clear());
 }
 
 /**
- * Gets all storage data at once
+ * Gets all storage data at once, tagged with its schema version
  * Useful for export functionality
  */
-export async function getAll(): Promise<Partial<StorageSchema>> {
-  return await chrome.storage.local.get(null);
+export async function getAll(): Promise<VersionedStorageData> {
+  return await chrome.storage.local.get([...STORAGE_KEYS, SCHEMA_VERSION_KEY]);
 }
 
 /**
- * Imports storage data (for import functionality)
- * Validates and merges with defaults to ensure data integrity
+ * Brings stored data up to the current schema version
+ * Safe to call on every install/update - already-current data is left as is
  * 
- * @param data - Partial storage data to import
+ * @returns The schema version the data was migrated from
  */
-export async function importData(data: Partial<StorageSchema>): Promise<void> {
-  // Merge with defaults to ensure all required fields exist
-  if (data.harpoon) {
-    await set('harpoon', { ...DEFAULT_HARPOON_STATE, ...data.harpoon });
-  }
-  if (data.workspaces) {
-    await set('workspaces', { ...DEFAULT_WORKSPACE_STATE, ...data.workspaces });
-  }
-  if (data.settings) {
-    await set('settings', { ...DEFAULT_SETTINGS, ...data.settings });
-  }
+export async function runMigrations(): Promise<number> {
+  return await withStorageLock(async () => {
+    const stored = await getAll();
+    const fromVersion = getSchemaVersion(stored);
+    const migrated = migrateData(stored);
+
+    if (fromVersion !== migrated.schemaVersion) {
+      await chrome.storage.local.set(migrated);
+      console.log(`Storage: Migrated data from schema v${fromVersion} to v${migrated.schemaVersion}`);
+    }
+
+    return fromVersion;
+  });
 }
 
 // =============================================================================
@@ -182,11 +302,9 @@ export async function importData(data: Partial<StorageSchema>): Promise<void> {
 /**
  * Storage change callback type
  */
-interface StorageChanges {
-  harpoon?: { oldValue?: HarpoonState; newValue?: HarpoonState };
-  workspaces?: { oldValue?: WorkspaceState; newValue?: WorkspaceState };
-  settings?: { oldValue?: Settings; newValue?: Settings };
-}
+export type StorageChanges = {
+  [K in StorageKey]?: { oldValue?: StorageSchema[K]; newValue?: StorageSchema[K] };
+};
 
 /**
  * Subscribes to storage changes
@@ -0,0 +1,111 @@
+/**
+ * Reactive State Stores
+ *
+ * Readable Svelte stores mirroring the persisted state, plus derived
+ * selectors for the values components actually render.
+ *
+ * Each store loads its key once when the first subscriber arrives and is
+ * then fed by subscribe() from storage.ts, so writes made anywhere - the
+ * popup, the options page, the service worker or a sync pull - show up in
+ * every open extension page without manual re-fetching.
+ *
+ * Stores hold null until the initial read completes.
+ */
+
+import { readable, derived, type Readable } from 'svelte/store';
+import type { StorageKey, StorageSchema, HarpoonList, HarpoonSlot, HarpoonState, WorkspaceState, Workspace, Settings } from './types';
+import { get, subscribe, withDefaults } from './storage';
+import { getActiveList } from './harpoon';
+
+// =============================================================================
+// STORE FACTORY
+// =============================================================================
+
+/**
+ * Creates a readable store for a storage key
+ *
+ * @param key - The storage key to mirror
+ * @returns Store holding the current value, or null while loading
+ */
+function storageStore<K extends StorageKey>(key: K): Readable<StorageSchema[K] | null> {
+  return readable<StorageSchema[K] | null>(null, (set) => {
+    // A change can arrive before the initial read resolves - it is newer,
+    // so the read result must not overwrite it
+    let changed = false;
+
+    const unsubscribe = subscribe((changes) => {
+      const change = changes[key];
+      if (!change) return;
+      changed = true;
+      set(withDefaults(key, change.newValue as StorageSchema[K] | undefined));
+    });
+
+    get(key)
+      .then((value) => {
+        if (!changed) set(value);
+      })
+      .catch((error) => console.error(`Stores: Failed to load ${key}:`, error));
+
+    return unsubscribe;
+  });
+}
+
+// =============================================================================
+// STATE STORES
+// =============================================================================
+
+/**
+ * Harpoon slots
+ */
+export const harpoonState: Readable<HarpoonState | null> = storageStore('harpoon');
+
+/**
+ * Workspaces and the active workspace ID
+ */
+export const workspaceState: Readable<WorkspaceState | null> = storageStore('workspaces');
+
+/**
+ * User settings, with defaults filled in
+ */
+export const settings: Readable<Settings | null> = storageStore('settings');
+
+// =============================================================================
+// SELECTORS
+// =============================================================================
+
+/**
+ * The active workspace (null in the "All" view or while loading)
+ */
+export const activeWorkspace: Readable<Workspace | null> = derived(
+  workspaceState,
+  ($workspaceState) =>
+    $workspaceState?.workspaces.find((ws) => ws.id === $workspaceState.activeWorkspaceId) ?? null
+);
+
+/**
+ * The active harpoon list (null while loading)
+ */
+export const activeHarpoonList: Readable<HarpoonList | null> = derived(
+  harpoonState,
+  ($harpoonState) => ($harpoonState ? getActiveList($harpoonState) : null)
+);
+
+/**
+ * Filled slots of the active harpoon list, in slot order
+ */
+export const filledSlots: Readable<HarpoonSlot[]> = derived(activeHarpoonList, ($activeHarpoonList) =>
+  ($activeHarpoonList?.slots ?? []).filter((slot): slot is HarpoonSlot => slot !== null)
+);
+
+/**
+ * Map of tab ID -> harpoon slot ID for slots bound to an open tab
+ */
+export const tabToSlot: Readable<Map<number, number>> = derived(filledSlots, ($filledSlots) => {
+  const map = new Map<number, number>();
+  for (const slot of $filledSlots) {
+    if (slot.tabId !== undefined) {
+      map.set(slot.tabId, slot.id);
+    }
+  }
+  return map;
+});
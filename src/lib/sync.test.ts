@@ -0,0 +1,285 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HarpoonState, Settings, SyncEnvelope, SyncPayload, SyncedHarpoonSlot, WorkspaceState } from './types';
+import { DEFAULT_SETTINGS, get, set } from './storage';
+import {
+  applySyncPayload,
+  createMemorySyncArea,
+  mergeSyncPayloads,
+  readEnvelope,
+  syncNow,
+  toSyncPayload,
+  writeEnvelope,
+} from './sync';
+
+/**
+ * In-memory stand-in for chrome.storage.local
+ */
+function fakeStorageArea() {
+  let items: Record<string, unknown> = {};
+  return {
+    get: async (key: string) => (key in items ? { [key]: structuredClone(items[key]) } : {}),
+    set: async (values: Record<string, unknown>) => {
+      items = { ...items, ...structuredClone(values) };
+    },
+  };
+}
+
+const page = (n: number): SyncedHarpoonSlot => ({ url: `https://example.com/${n}`, title: `Page ${n}` });
+
+const payload = (slots: (SyncedHarpoonSlot | null)[], workspaces: SyncPayload['workspaces'] = []): SyncPayload => ({
+  settings: {},
+  harpoon: { maxSlots: 3, lists: [{ id: 'default', name: 'Default', slots }] },
+  workspaces,
+});
+
+const harpoonState: HarpoonState = {
+  maxSlots: 3,
+  activeListId: 'default',
+  lists: [
+    {
+      id: 'default',
+      name: 'Default',
+      slots: [{ id: 1, ...page(1), tabId: 11, windowId: 1 }, null, { id: 3, ...page(3), tabId: 33 }],
+    },
+  ],
+};
+
+const workspaceState: WorkspaceState = {
+  workspaces: [
+    { id: 'default', name: 'Default', tabUrls: [], tabIds: [5], isDefault: true },
+    { id: 'ws_work', name: 'Work', tabUrls: ['https://example.com/w'], tabIds: [7, 8] },
+  ],
+  activeWorkspaceId: 'ws_work',
+  tabToWorkspace: { 5: 'default', 7: 'ws_work', 8: 'ws_work' },
+};
+
+const settings: Settings = { ...DEFAULT_SETTINGS, syncEnabled: true };
+
+describe('mergeSyncPayloads', () => {
+  const base = payload([page(1), page(2), null]);
+
+  it('lets the device with the greater ID win when both edit the same slot', () => {
+    const local = payload([page(10), page(2), null]);
+    const remote = payload([page(20), page(2), null]);
+
+    expect(mergeSyncPayloads(base, local, remote, true).harpoon.lists[0]?.slots[0]).toEqual(page(10));
+    expect(mergeSyncPayloads(base, local, remote, false).harpoon.lists[0]?.slots[0]).toEqual(page(20));
+  });
+
+  it('keeps both sides when they edit different slots', () => {
+    const local = payload([page(10), page(2), null]);
+    const remote = payload([page(1), null, page(30)]);
+
+    expect(mergeSyncPayloads(base, local, remote, false).harpoon.lists[0]?.slots).toEqual([
+      page(10),
+      null,
+      page(30),
+    ]);
+  });
+
+  it('keeps an item edited on one side and deleted on the other', () => {
+    const work = { id: 'ws_work', name: 'Work', tabUrls: [] };
+    const withWork = payload([], [work]);
+    const renamed = payload([], [{ ...work, name: 'Job' }]);
+    const deleted = payload([], []);
+
+    expect(mergeSyncPayloads(withWork, deleted, renamed, true).workspaces).toEqual([{ ...work, name: 'Job' }]);
+    expect(mergeSyncPayloads(withWork, renamed, deleted, true).workspaces).toEqual([{ ...work, name: 'Job' }]);
+  });
+
+  it('deletes an item deleted on one side and untouched on the other', () => {
+    const work = { id: 'ws_work', name: 'Work', tabUrls: [] };
+
+    expect(mergeSyncPayloads(payload([], [work]), payload([], []), payload([], [work]), true).workspaces).toEqual([]);
+  });
+});
+
+describe('device-local data', () => {
+  it('leaves tab IDs, tabToWorkspace and syncEnabled out of the payload', () => {
+    const synced = toSyncPayload(harpoonState, workspaceState, settings);
+    const json = JSON.stringify(synced);
+
+    expect(json).not.toContain('tabId');
+    expect(json).not.toContain('windowId');
+    expect(json).not.toContain('tabToWorkspace');
+    expect(synced.settings).not.toHaveProperty('syncEnabled');
+    expect(synced.harpoon.lists[0]?.slots[0]).toEqual(page(1));
+  });
+
+  it('keeps local tab IDs for slots that still point at the same page', () => {
+    const synced = toSyncPayload(harpoonState, workspaceState, settings);
+    synced.harpoon.lists[0]!.slots[2] = page(4);
+
+    const next = applySyncPayload(synced, harpoonState, workspaceState, { ...settings, syncEnabled: true });
+
+    expect(next.harpoon.lists[0]?.slots[0]).toMatchObject({ tabId: 11, windowId: 1 });
+    expect(next.harpoon.lists[0]?.slots[2]).toMatchObject({ ...page(4), tabId: undefined });
+    expect(next.settings.syncEnabled).toBe(true);
+  });
+
+  it('keeps tab membership local and moves tabs of deleted workspaces to the default one', () => {
+    const synced = toSyncPayload(harpoonState, workspaceState, settings);
+    synced.workspaces = synced.workspaces.filter((ws) => ws.id !== 'ws_work');
+
+    const next = applySyncPayload(synced, harpoonState, workspaceState, settings);
+
+    expect(next.workspaces.tabToWorkspace).toEqual({ 5: 'default', 7: 'default', 8: 'default' });
+    expect(next.workspaces.workspaces).toEqual([
+      { id: 'default', name: 'Default', tabUrls: [], isDefault: true, tabIds: [5, 7, 8] },
+    ]);
+    expect(next.workspaces.activeWorkspaceId).toBe('default');
+  });
+});
+
+describe('chunked envelopes', () => {
+  const bigEnvelope = (): SyncEnvelope => ({
+    deviceId: 'device-a',
+    updatedAt: 1,
+    payload: payload(
+      [page(1)],
+      [{ id: 'ws_big', name: 'Big', tabUrls: Array.from({ length: 400 }, (_, i) => `https://example.com/${'x'.repeat(40)}/${i}`) }]
+    ),
+  });
+
+  it('splits a payload over the per-item quota and reads it back', async () => {
+    const area = createMemorySyncArea();
+    const envelope = bigEnvelope();
+
+    await writeEnvelope(area, envelope);
+
+    const stored = await area.get(null);
+    const chunks = Object.keys(stored).filter((key) => key.startsWith('hts_chunk_'));
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const key of chunks) {
+      expect(new TextEncoder().encode(JSON.stringify(stored[key])).length).toBeLessThanOrEqual(8192);
+    }
+    expect(await readEnvelope(area)).toEqual(envelope);
+  });
+
+  it('drops chunks left over from a longer payload', async () => {
+    const area = createMemorySyncArea();
+    await writeEnvelope(area, bigEnvelope());
+
+    const small: SyncEnvelope = { deviceId: 'device-a', updatedAt: 2, payload: payload([page(1)]) };
+    await writeEnvelope(area, small);
+
+    expect(Object.keys(await area.get(null)).sort()).toEqual(['hts_chunk_0', 'hts_meta']);
+    expect(await readEnvelope(area)).toEqual(small);
+  });
+
+  it('ignores a corrupted payload', async () => {
+    const area = createMemorySyncArea();
+    await writeEnvelope(area, bigEnvelope());
+    await area.set({ hts_chunk_0: '{"deviceId": broken' });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await readEnvelope(area)).toBeNull();
+    expect(warn).toHaveBeenCalledWith('Sync: Stored payload is corrupted, ignoring it');
+    warn.mockRestore();
+  });
+
+  it('treats a payload with a missing chunk as not there yet', async () => {
+    const area = createMemorySyncArea();
+    await writeEnvelope(area, bigEnvelope());
+    await area.remove(['hts_chunk_1']);
+
+    expect(await readEnvelope(area)).toBeNull();
+  });
+});
+
+describe('syncNow', () => {
+  let deviceA = fakeStorageArea();
+  let deviceB = fakeStorageArea();
+  let area = createMemorySyncArea();
+
+  /**
+   * Makes chrome.storage.local point at one device's storage
+   */
+  const onDevice = (local: ReturnType<typeof fakeStorageArea>) =>
+    vi.stubGlobal('chrome', { storage: { local } });
+
+  beforeEach(async () => {
+    deviceA = fakeStorageArea();
+    deviceB = fakeStorageArea();
+    area = createMemorySyncArea();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    // Fixed IDs, so the same device wins conflicts on every run
+    await deviceA.set({ syncDeviceId: 'device-a' });
+    await deviceB.set({ syncDeviceId: 'device-b' });
+
+    onDevice(deviceA);
+    await set('harpoon', harpoonState);
+    await set('workspaces', workspaceState);
+    await set('settings', settings);
+
+    onDevice(deviceB);
+    await set('harpoon', { ...harpoonState, lists: [{ id: 'default', name: 'Default', slots: [null, null, null] }] });
+    await set('settings', settings);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('brings a second device up to date and keeps its tab IDs local', async () => {
+    onDevice(deviceA);
+    await syncNow(area);
+    onDevice(deviceB);
+    await syncNow(area);
+
+    const slots = (await get('harpoon')).lists[0]?.slots;
+    expect(slots?.map((slot) => slot?.url)).toEqual([page(1).url, undefined, page(3).url]);
+    expect(slots?.[0]?.tabId).toBeUndefined();
+    expect((await get('workspaces')).workspaces.map((ws) => ws.name)).toEqual(['Default', 'Work']);
+  });
+
+  it('merges edits made on both devices', async () => {
+    onDevice(deviceA);
+    await syncNow(area);
+    onDevice(deviceB);
+    await syncNow(area);
+
+    // A renames a workspace while B fills an empty slot
+    onDevice(deviceA);
+    const stateA = await get('workspaces');
+    await set('workspaces', {
+      ...stateA,
+      workspaces: stateA.workspaces.map((ws) => (ws.id === 'ws_work' ? { ...ws, name: 'Job' } : ws)),
+    });
+    onDevice(deviceB);
+    const stateB = await get('harpoon');
+    await set('harpoon', {
+      ...stateB,
+      lists: stateB.lists.map((list) => ({ ...list, slots: [list.slots[0]!, { id: 2, ...page(2) }, list.slots[2]!] })),
+    });
+
+    onDevice(deviceA);
+    await syncNow(area);
+    onDevice(deviceB);
+    await syncNow(area);
+    onDevice(deviceA);
+    await syncNow(area);
+
+    for (const device of [deviceA, deviceB]) {
+      onDevice(device);
+      expect((await get('harpoon')).lists[0]?.slots.map((slot) => slot?.url)).toEqual([
+        page(1).url,
+        page(2).url,
+        page(3).url,
+      ]);
+      expect((await get('workspaces')).workspaces.map((ws) => ws.name)).toEqual(['Default', 'Job']);
+    }
+    // Device A's tabs are still its own
+    onDevice(deviceA);
+    expect((await get('harpoon')).lists[0]?.slots[0]?.tabId).toBe(11);
+  });
+
+  it('does nothing while sync is disabled', async () => {
+    onDevice(deviceA);
+    await set('settings', { ...settings, syncEnabled: false });
+    await syncNow(area);
+
+    expect(await area.get(null)).toEqual({});
+  });
+});
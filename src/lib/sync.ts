@@ -0,0 +1,584 @@
+/**
+ * Sync Backend
+ *
+ * Optionally mirrors settings, harpoon slots and workspace definitions to
+ * chrome.storage.sync so they follow the user across devices.
+ *
+ * - Only device-independent data is synced: URLs, titles, names, colors.
+ *   Tab IDs, window IDs and tabToWorkspace never leave the device.
+ * - The payload is JSON-encoded and split into chunks that fit sync's
+ *   per-item quota.
+ * - Concurrent edits are resolved with a three-way merge against the last
+ *   payload both sides agreed on. Settings merge per key, harpoon lists per
+ *   list ID and their slots per slot, workspaces per workspace ID. When both
+ *   devices changed the same key, the device with the greater ID wins, so
+ *   every device computes the same result.
+ * - Which harpoon list and workspace are active is device-local.
+ */
+
+import type {
+  HarpoonList,
+  HarpoonSlot,
+  HarpoonState,
+  Settings,
+  SyncEnvelope,
+  SyncPayload,
+  SyncStorageArea,
+  SyncedHarpoonList,
+  SyncedHarpoonSlot,
+  SyncedWorkspace,
+  Workspace,
+  WorkspaceState,
+} from './types';
+import { get, withStorageLock, writeUnlocked } from './storage';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * chrome.storage.sync quotas (see chrome.storage.sync.QUOTA_*)
+ * Hardcoded so the module also works against an in-memory area
+ */
+const QUOTA_BYTES = 102400;
+const QUOTA_BYTES_PER_ITEM = 8192;
+
+/**
+ * Keys used in sync storage
+ * The meta item records how many chunks make up the current payload
+ */
+const META_KEY = 'hts_meta';
+const CHUNK_KEY_PREFIX = 'hts_chunk_';
+
+/**
+ * Keys used in local storage for sync bookkeeping
+ */
+const DEVICE_ID_KEY = 'syncDeviceId';
+const BASE_KEY = 'syncBase';
+
+/**
+ * Settings that describe this device rather than the user's preferences
+ */
+const DEVICE_LOCAL_SETTINGS: (keyof Settings)[] = ['syncEnabled'];
+
+/**
+ * Metadata item stored next to the chunks
+ */
+interface SyncMeta {
+  chunks: number;
+  deviceId: string;
+  updatedAt: number;
+}
+
+// =============================================================================
+// IN-MEMORY AREA
+// =============================================================================
+
+/**
+ * Creates an in-memory stand-in for chrome.storage.sync
+ * Values are JSON round-tripped, like the real storage area
+ *
+ * @param initial - Optional initial contents
+ */
+export function createMemorySyncArea(initial: Record<string, unknown> = {}): SyncStorageArea {
+  const items = new Map<string, string>(
+    Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)])
+  );
+
+  return {
+    async get(keys) {
+      const result: Record<string, unknown> = {};
+      for (const key of keys ?? [...items.keys()]) {
+        const raw = items.get(key);
+        if (raw !== undefined) result[key] = JSON.parse(raw);
+      }
+      return result;
+    },
+    async set(values) {
+      for (const [key, value] of Object.entries(values)) {
+        items.set(key, JSON.stringify(value));
+      }
+    },
+    async remove(keys) {
+      for (const key of keys) items.delete(key);
+    },
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * JSON.stringify with sorted object keys, for order-independent comparison
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.entries(val as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+    return val;
+  });
+}
+
+/**
+ * Deep equality for plain JSON data
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * UTF-8 size of a value as sync storage measures it
+ */
+function byteSize(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+/**
+ * Three-way merge of a collection of items keyed by ID
+ * Deleted on one side and untouched on the other means deleted; deleted on
+ * one side and edited on the other keeps the edit.
+ *
+ * @param mergeItem - Merges an item present on both sides
+ */
+function mergeById<T extends { id: string }>(
+  base: T[] | undefined,
+  local: T[],
+  remote: T[],
+  mergeItem: (base: T | undefined, local: T, remote: T) => T
+): T[] {
+  const baseById = new Map(base?.map((item) => [item.id, item]) ?? []);
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+  const orderedIds = [
+    ...local.map((item) => item.id),
+    ...remote.map((item) => item.id).filter((id) => !localById.has(id)),
+  ];
+
+  const merged: T[] = [];
+  for (const id of orderedIds) {
+    const baseItem = baseById.get(id);
+    const localItem = localById.get(id);
+    const remoteItem = remoteById.get(id);
+
+    if (localItem && remoteItem) {
+      merged.push(mergeItem(baseItem, localItem, remoteItem));
+      continue;
+    }
+
+    // Only one side has it
+    const present = (localItem ?? remoteItem)!;
+    if (!baseItem) {
+      merged.push(present); // Created on that side
+    } else if (!isEqual(present, baseItem)) {
+      merged.push(present); // Edited here, deleted there: keep the edit
+    }
+    // Otherwise deleted on the other side, untouched here
+  }
+
+  return merged;
+}
+
+/**
+ * Three-way merge of a single value
+ * Takes whichever side changed relative to the base. If both changed,
+ * `localWins` decides.
+ */
+function mergeValue<T>(base: T | undefined, local: T | undefined, remote: T | undefined, localWins: boolean): T | undefined {
+  if (isEqual(local, remote)) return local;
+  if (isEqual(local, base)) return remote;
+  if (isEqual(remote, base)) return local;
+  return localWins ? local : remote;
+}
+
+// =============================================================================
+// PAYLOAD CONVERSION
+// =============================================================================
+
+/**
+ * Payload shape written before harpoon lists existed (schema v1)
+ */
+interface LegacySyncPayload extends Omit<SyncPayload, 'harpoon'> {
+  harpoon: { maxSlots: number; slots: (SyncedHarpoonSlot | null)[] };
+}
+
+/**
+ * Brings a payload written by an older version up to the current shape
+ * Both the remote payload and the stored merge base may predate harpoon
+ * lists; their slots become the "Default" list, as in migrateV1ToV2.
+ */
+function upgradeSyncPayload(payload: SyncPayload | LegacySyncPayload): SyncPayload {
+  if ('lists' in payload.harpoon) return payload as SyncPayload;
+
+  const { maxSlots, slots } = payload.harpoon;
+  return { ...payload, harpoon: { maxSlots, lists: [{ id: 'default', name: 'Default', slots }] } };
+}
+
+/**
+ * Strips device-local fields from the stored state
+ *
+ * @returns The part of the state that is shared across devices
+ */
+export function toSyncPayload(
+  harpoon: HarpoonState,
+  workspaces: WorkspaceState,
+  settings: Settings
+): SyncPayload {
+  const sharedSettings: Partial<Settings> = { ...settings };
+  for (const key of DEVICE_LOCAL_SETTINGS) {
+    delete sharedSettings[key];
+  }
+
+  return {
+    settings: sharedSettings,
+    harpoon: {
+      maxSlots: harpoon.maxSlots,
+      lists: harpoon.lists.map((list) => ({
+        id: list.id,
+        name: list.name,
+        slots: list.slots.map((slot) =>
+          slot
+            ? {
+                url: slot.url,
+                title: slot.title,
+                favicon: slot.favicon,
+                matchMode: slot.matchMode,
+                matchPattern: slot.matchPattern,
+                followPolicy: slot.followPolicy,
+              }
+            : null
+        ),
+      })),
+    },
+    workspaces: workspaces.workspaces.map((ws) => ({
+      id: ws.id,
+      name: ws.name,
+      tabUrls: ws.tabUrls,
+      color: ws.color,
+      isDefault: ws.isDefault,
+      harpoonListId: ws.harpoonListId,
+    })),
+  };
+}
+
+/**
+ * Applies a merged payload to the local state
+ * Keeps tab IDs for slots and workspaces that still point at the same thing,
+ * and moves tabs of workspaces deleted elsewhere to the default workspace
+ *
+ * @returns The new local state
+ */
+export function applySyncPayload(
+  payload: SyncPayload,
+  harpoon: HarpoonState,
+  workspaces: WorkspaceState,
+  settings: Settings
+): { harpoon: HarpoonState; workspaces: WorkspaceState; settings: Settings } {
+  const localLists = new Map(harpoon.lists.map((list) => [list.id, list]));
+  const lists: HarpoonList[] = payload.harpoon.lists.map((syncedList) => ({
+    ...syncedList,
+    slots: syncedList.slots.map((synced, index): HarpoonSlot | null => {
+      if (!synced) return null;
+      const local = localLists.get(syncedList.id)?.slots[index];
+      const sameTab = local && local.url === synced.url;
+      return {
+        ...synced,
+        id: index + 1,
+        tabId: sameTab ? local.tabId : undefined,
+        windowId: sameTab ? local.windowId : undefined,
+        index: sameTab ? local.index : undefined,
+        pinned: sameTab ? local.pinned : undefined,
+        group: sameTab ? local.group : undefined,
+        health: sameTab ? local.health : undefined,
+      };
+    }),
+  }));
+  const activeListId = lists.some((list) => list.id === harpoon.activeListId)
+    ? harpoon.activeListId
+    : lists[0]?.id ?? harpoon.activeListId;
+
+  const remainingIds = new Set(payload.workspaces.map((ws) => ws.id));
+  const defaultId = payload.workspaces.find((ws) => ws.isDefault)?.id ?? payload.workspaces[0]?.id;
+  const tabToWorkspace: Record<number, string> = {};
+  for (const [tabId, wsId] of Object.entries(workspaces.tabToWorkspace)) {
+    const target = remainingIds.has(wsId) ? wsId : defaultId;
+    if (target) tabToWorkspace[Number(tabId)] = target;
+  }
+  // Tab membership is device-local: rebuild it from this device's mapping
+  const mergedWorkspaces: Workspace[] = payload.workspaces.map((synced) => ({
+    ...synced,
+    tabIds: Object.entries(tabToWorkspace)
+      .filter(([, wsId]) => wsId === synced.id)
+      .map(([tabId]) => Number(tabId)),
+  }));
+
+  const activeWorkspaceId =
+    workspaces.activeWorkspaceId === null || remainingIds.has(workspaces.activeWorkspaceId)
+      ? workspaces.activeWorkspaceId
+      : defaultId ?? null;
+
+  const localSettings = Object.fromEntries(
+    DEVICE_LOCAL_SETTINGS.map((key) => [key, settings[key]])
+  );
+
+  return {
+    harpoon: { ...harpoon, maxSlots: payload.harpoon.maxSlots, lists, activeListId },
+    workspaces: { ...workspaces, workspaces: mergedWorkspaces, tabToWorkspace, activeWorkspaceId },
+    settings: { ...settings, ...payload.settings, ...localSettings },
+  };
+}
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+/**
+ * Three-way merge of two sync payloads
+ * Pure and deterministic: given the same inputs (with `localWins` derived
+ * from the device IDs), every device arrives at the same payload.
+ *
+ * @param base - Last payload both sides agreed on (null on first sync)
+ * @param local - This device's payload
+ * @param remote - The payload currently in sync storage
+ * @param localWins - Who wins when both sides changed the same key
+ * @returns The merged payload
+ */
+export function mergeSyncPayloads(
+  base: SyncPayload | null,
+  local: SyncPayload,
+  remote: SyncPayload,
+  localWins: boolean
+): SyncPayload {
+  // Settings: per key
+  const settings: Partial<Settings> = {};
+  const settingKeys = new Set([
+    ...Object.keys(local.settings),
+    ...Object.keys(remote.settings),
+  ]) as Set<keyof Settings>;
+  for (const key of settingKeys) {
+    const value = mergeValue(base?.settings[key], local.settings[key], remote.settings[key], localWins);
+    if (value !== undefined) {
+      (settings as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  // Harpoon: lists per ID, slots per index
+  const maxSlots =
+    mergeValue(base?.harpoon.maxSlots, local.harpoon.maxSlots, remote.harpoon.maxSlots, localWins) ??
+    local.harpoon.maxSlots;
+  const mergedLists = mergeById<SyncedHarpoonList>(
+    base?.harpoon.lists,
+    local.harpoon.lists,
+    remote.harpoon.lists,
+    (baseList, localList, remoteList) => {
+      const slots: (SyncedHarpoonSlot | null)[] = [];
+      for (let i = 0; i < maxSlots; i++) {
+        const slot = mergeValue(
+          baseList?.slots[i] ?? null,
+          localList.slots[i] ?? null,
+          remoteList.slots[i] ?? null,
+          localWins
+        );
+        slots.push(slot ?? null);
+      }
+      return {
+        id: localList.id,
+        name: mergeValue(baseList?.name, localList.name, remoteList.name, localWins) ?? localList.name,
+        slots,
+      };
+    }
+  );
+  // Every list has maxSlots slots, including those only one side has
+  const lists = mergedLists.map((list) => ({
+    ...list,
+    slots: Array.from({ length: maxSlots }, (_, i) => list.slots[i] ?? null),
+  }));
+
+  // Workspaces: per ID
+  const workspaces = mergeById<SyncedWorkspace>(
+    base?.workspaces,
+    local.workspaces,
+    remote.workspaces,
+    (baseWs, localWs, remoteWs) => ({
+      id: localWs.id,
+      name: mergeValue(baseWs?.name, localWs.name, remoteWs.name, localWins) ?? localWs.name,
+      tabUrls: mergeValue(baseWs?.tabUrls, localWs.tabUrls, remoteWs.tabUrls, localWins) ?? [],
+      color: mergeValue(baseWs?.color, localWs.color, remoteWs.color, localWins),
+      isDefault: mergeValue(baseWs?.isDefault, localWs.isDefault, remoteWs.isDefault, localWins),
+      harpoonListId: mergeValue(baseWs?.harpoonListId, localWs.harpoonListId, remoteWs.harpoonListId, localWins),
+    })
+  );
+
+  return { settings, harpoon: { maxSlots, lists }, workspaces };
+}
+
+// =============================================================================
+// CHUNKED STORAGE
+// =============================================================================
+
+/**
+ * Splits a string into pieces whose JSON encoding fits in one sync item
+ */
+function chunkString(value: string, maxBytes: number): string[] {
+  const chunks: string[] = [];
+  let offset = 0;
+
+  while (offset < value.length) {
+    let size = Math.min(value.length - offset, maxBytes);
+    // Shrink until the encoded chunk fits (escaping and multi-byte
+    // characters can make it larger than the raw slice)
+    while (byteSize(JSON.stringify(value.slice(offset, offset + size))) > maxBytes) {
+      size = Math.floor(size * 0.9);
+    }
+    chunks.push(value.slice(offset, offset + size));
+    offset += size;
+  }
+
+  return chunks;
+}
+
+/**
+ * Reads the current envelope from a sync area
+ *
+ * @returns The envelope, or null if nothing (or only a partial write) is stored
+ */
+export async function readEnvelope(area: SyncStorageArea): Promise<SyncEnvelope | null> {
+  const { [META_KEY]: meta } = (await area.get([META_KEY])) as { [META_KEY]?: SyncMeta };
+  if (!meta || meta.chunks === 0) return null;
+
+  const keys = Array.from({ length: meta.chunks }, (_, i) => `${CHUNK_KEY_PREFIX}${i}`);
+  const stored = await area.get(keys);
+
+  let json = '';
+  for (const key of keys) {
+    const chunk = stored[key];
+    if (typeof chunk !== 'string') {
+      // Another device is mid-write; its change event will trigger a retry
+      return null;
+    }
+    json += chunk;
+  }
+
+  try {
+    return JSON.parse(json) as SyncEnvelope;
+  } catch {
+    console.warn('Sync: Stored payload is corrupted, ignoring it');
+    return null;
+  }
+}
+
+/**
+ * Writes an envelope to a sync area, chunked to fit the per-item quota
+ *
+ * @throws If the payload exceeds the total sync quota
+ */
+export async function writeEnvelope(area: SyncStorageArea, envelope: SyncEnvelope): Promise<void> {
+  const json = JSON.stringify(envelope);
+  const maxChunkBytes = QUOTA_BYTES_PER_ITEM - `${CHUNK_KEY_PREFIX}000`.length;
+  const chunks = chunkString(json, maxChunkBytes);
+
+  // Leave headroom for the meta item and key names
+  if (byteSize(json) + chunks.length * 64 > QUOTA_BYTES - 1024) {
+    throw new Error('Sync: Data is too large for chrome.storage.sync');
+  }
+
+  const { [META_KEY]: previous } = (await area.get([META_KEY])) as { [META_KEY]?: SyncMeta };
+
+  const items: Record<string, unknown> = {};
+  chunks.forEach((chunk, i) => {
+    items[`${CHUNK_KEY_PREFIX}${i}`] = chunk;
+  });
+  const meta: SyncMeta = {
+    chunks: chunks.length,
+    deviceId: envelope.deviceId,
+    updatedAt: envelope.updatedAt,
+  };
+  items[META_KEY] = meta;
+  await area.set(items);
+
+  // Drop chunks left over from a longer previous payload
+  if (previous && previous.chunks > chunks.length) {
+    const stale = [];
+    for (let i = chunks.length; i < previous.chunks; i++) {
+      stale.push(`${CHUNK_KEY_PREFIX}${i}`);
+    }
+    await area.remove(stale);
+  }
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+/**
+ * Gets (or creates) this device's random sync ID
+ */
+async function getDeviceId(): Promise<string> {
+  const { [DEVICE_ID_KEY]: stored } = await chrome.storage.local.get(DEVICE_ID_KEY);
+  if (typeof stored === 'string') return stored;
+
+  const deviceId = crypto.randomUUID();
+  await chrome.storage.local.set({ [DEVICE_ID_KEY]: deviceId });
+  return deviceId;
+}
+
+/**
+ * Runs one sync round: merges local and remote data, writes the result to
+ * both sides and records it as the new merge base
+ * Does nothing if sync is disabled in settings
+ *
+ * @param area - Sync storage area (defaults to chrome.storage.sync)
+ */
+export async function syncNow(area: SyncStorageArea = chrome.storage.sync): Promise<void> {
+  const settings = await get('settings');
+  if (!settings.syncEnabled) return;
+
+  const deviceId = await getDeviceId();
+  const envelope = await readEnvelope(area);
+  const remote = envelope && { ...envelope, payload: upgradeSyncPayload(envelope.payload) };
+
+  // Merge and apply locally under the storage lock, so no local write
+  // slips in between reading the state and writing the merge result
+  const merged = await withStorageLock(async () => {
+    const [harpoon, workspaces, currentSettings] = await Promise.all([
+      get('harpoon'),
+      get('workspaces'),
+      get('settings'),
+    ]);
+    const { [BASE_KEY]: storedBase } = await chrome.storage.local.get(BASE_KEY);
+    const base = storedBase ? upgradeSyncPayload(storedBase as SyncPayload | LegacySyncPayload) : null;
+
+    const local = toSyncPayload(harpoon, workspaces, currentSettings);
+    const merged = remote
+      ? mergeSyncPayloads(base, local, remote.payload, deviceId > remote.deviceId)
+      : local;
+
+    if (!isEqual(merged, local)) {
+      const next = applySyncPayload(merged, harpoon, workspaces, currentSettings);
+      await writeUnlocked('harpoon', next.harpoon);
+      await writeUnlocked('workspaces', next.workspaces);
+      await writeUnlocked('settings', next.settings);
+    }
+    await chrome.storage.local.set({ [BASE_KEY]: merged });
+
+    return merged;
+  });
+
+  if (!remote || !isEqual(merged, remote.payload)) {
+    await writeEnvelope(area, { deviceId, updatedAt: Date.now(), payload: merged });
+    console.log('Sync: Pushed changes to sync storage');
+  }
+}
+
+/**
+ * Checks whether a chrome.storage.onChanged event for the sync area
+ * contains a new payload
+ *
+ * @param changes - Changes from chrome.storage.onChanged
+ */
+export function isSyncPayloadChange(changes: { [key: string]: chrome.storage.StorageChange }): boolean {
+  return META_KEY in changes;
+}
@@ -0,0 +1,348 @@
+/**
+ * Tab Cache - In-Memory Tab/Window/Group Model
+ *
+ * The service worker keeps a copy of every open tab, window and tab group,
+ * kept current from tab, window and tabGroups events. Lookups that used to
+ * cost a chrome.tabs round trip each (getAllTabs on every Telescope
+ * keystroke, getTabById in sync loops) become map reads.
+ *
+ * The model lives in memory only. It is rebuilt from Chrome whenever the
+ * service worker starts; until that first build completes, tabs.ts falls
+ * back to querying Chrome directly. Other contexts (popup, options) never
+ * start the cache - the popup asks the worker for a snapshot instead.
+ */
+
+import type { TabSnapshot } from './types';
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const tabs = new Map<number, chrome.tabs.Tab>();
+const windows = new Map<number, chrome.windows.Window>();
+const groups = new Map<number, chrome.tabGroups.TabGroup>();
+
+/** Whether the model reflects Chrome's current state */
+let ready = false;
+
+/** Events that arrived during a rebuild, replayed once it completes */
+let pendingEvents: (() => void)[] = [];
+
+/** The rebuild in progress, if any */
+let rebuilding: Promise<void> | null = null;
+
+/** Whether the event listeners have been registered */
+let started = false;
+
+// =============================================================================
+// REBUILD
+// =============================================================================
+
+/**
+ * Reloads the whole model from Chrome
+ * Events that arrive mid-rebuild are queued and replayed in order on top of
+ * the query results. Every event carries the resulting state (not a delta),
+ * so replaying one the query already reflects is harmless.
+ */
+function rebuild(): Promise<void> {
+  if (rebuilding) return rebuilding;
+
+  pendingEvents = [];
+  rebuilding = (async () => {
+    const [allTabs, allWindows, allGroups] = await Promise.all([
+      chrome.tabs.query({}),
+      chrome.windows.getAll(),
+      chrome.tabGroups.query({}),
+    ]);
+
+    tabs.clear();
+    windows.clear();
+    groups.clear();
+    for (const tab of allTabs) {
+      if (tab.id !== undefined) tabs.set(tab.id, tab);
+    }
+    for (const win of allWindows) {
+      if (win.id !== undefined) windows.set(win.id, win);
+    }
+    for (const group of allGroups) {
+      groups.set(group.id, group);
+    }
+
+    for (const change of pendingEvents) {
+      change();
+    }
+    ready = true;
+    console.log(`TabCache: Built model of ${tabs.size} tabs in ${windows.size} windows`);
+  })()
+    .catch((error) => console.error('TabCache: Rebuild failed:', error))
+    .finally(() => {
+      pendingEvents = [];
+      rebuilding = null;
+    });
+
+  return rebuilding;
+}
+
+/**
+ * Applies an event to the model, or queues it while a rebuild is running
+ */
+function apply(change: () => void): void {
+  if (rebuilding) {
+    pendingEvents.push(change);
+  } else if (ready) {
+    change();
+  }
+}
+
+// =============================================================================
+// POSITION BOOKKEEPING
+// =============================================================================
+
+/**
+ * Gets a window's tabs in tab strip order
+ */
+function tabsInWindow(windowId: number): chrome.tabs.Tab[] {
+  return [...tabs.values()]
+    .filter((tab) => tab.windowId === windowId)
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Rewrites the index of every tab in a window after its order changed
+ *
+ * @param windowId - Window whose tab strip changed
+ * @param reorder - Receives the tabs in their old order, returns the new order
+ */
+function reindexWindow(
+  windowId: number,
+  reorder: (ordered: chrome.tabs.Tab[]) => chrome.tabs.Tab[]
+): void {
+  reorder(tabsInWindow(windowId)).forEach((tab, index) => {
+    if (tab.id !== undefined) {
+      tabs.set(tab.id, { ...tab, windowId, index });
+    }
+  });
+}
+
+/**
+ * Returns a tab order with a tab inserted at a position
+ */
+function insertAt(
+  ordered: chrome.tabs.Tab[],
+  tab: chrome.tabs.Tab,
+  position: number
+): chrome.tabs.Tab[] {
+  const others = ordered.filter((t) => t.id !== tab.id);
+  return [...others.slice(0, position), tab, ...others.slice(position)];
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+function handleTabCreated(tab: chrome.tabs.Tab): void {
+  apply(() => {
+    if (tab.id === undefined) return;
+    reindexWindow(tab.windowId, (ordered) => insertAt(ordered, tab, tab.index));
+  });
+}
+
+function handleTabUpdated(tabId: number, _changeInfo: chrome.tabs.OnUpdatedInfo, tab: chrome.tabs.Tab): void {
+  apply(() => tabs.set(tabId, tab));
+}
+
+function handleTabRemoved(tabId: number, removeInfo: chrome.tabs.OnRemovedInfo): void {
+  apply(() => {
+    tabs.delete(tabId);
+    if (!removeInfo.isWindowClosing) {
+      reindexWindow(removeInfo.windowId, (ordered) => ordered);
+    }
+  });
+}
+
+function handleTabMoved(tabId: number, moveInfo: chrome.tabs.OnMovedInfo): void {
+  apply(() => {
+    const tab = tabs.get(tabId);
+    if (!tab) return;
+    reindexWindow(moveInfo.windowId, (ordered) => insertAt(ordered, tab, moveInfo.toIndex));
+  });
+}
+
+function handleTabDetached(tabId: number, detachInfo: chrome.tabs.OnDetachedInfo): void {
+  apply(() => {
+    const tab = tabs.get(tabId);
+    if (!tab) return;
+    // Between windows until onAttached
+    tabs.set(tabId, { ...tab, windowId: chrome.windows.WINDOW_ID_NONE });
+    reindexWindow(detachInfo.oldWindowId, (ordered) => ordered);
+  });
+}
+
+function handleTabAttached(tabId: number, attachInfo: chrome.tabs.OnAttachedInfo): void {
+  apply(() => {
+    const tab = tabs.get(tabId);
+    if (!tab) return;
+    const moved = { ...tab, windowId: attachInfo.newWindowId };
+    reindexWindow(attachInfo.newWindowId, (ordered) =>
+      insertAt(ordered, moved, attachInfo.newPosition)
+    );
+  });
+}
+
+function handleTabActivated(activeInfo: chrome.tabs.OnActivatedInfo): void {
+  apply(() => {
+    for (const tab of tabsInWindow(activeInfo.windowId)) {
+      if (tab.id === undefined) continue;
+      const active = tab.id === activeInfo.tabId;
+      if (tab.active !== active) {
+        tabs.set(tab.id, active ? { ...tab, active, lastAccessed: Date.now() } : { ...tab, active });
+      }
+    }
+  });
+}
+
+function handleTabReplaced(addedTabId: number, removedTabId: number): void {
+  apply(() => tabs.delete(removedTabId));
+  // The replacement tab (prerender, discard reload) is only known by ID
+  chrome.tabs
+    .get(addedTabId)
+    .then((tab) => apply(() => tabs.set(addedTabId, tab)))
+    .catch(() => {
+      // Replaced again or closed before we could look it up
+    });
+}
+
+function handleWindowCreated(win: chrome.windows.Window): void {
+  apply(() => {
+    if (win.id !== undefined) windows.set(win.id, win);
+  });
+}
+
+function handleWindowRemoved(windowId: number): void {
+  apply(() => {
+    windows.delete(windowId);
+    for (const tab of tabsInWindow(windowId)) {
+      if (tab.id !== undefined) tabs.delete(tab.id);
+    }
+  });
+}
+
+function handleWindowFocusChanged(windowId: number): void {
+  apply(() => {
+    for (const [id, win] of windows) {
+      const focused = id === windowId;
+      if (win.focused !== focused) windows.set(id, { ...win, focused });
+    }
+  });
+}
+
+function handleGroupChanged(group: chrome.tabGroups.TabGroup): void {
+  apply(() => groups.set(group.id, group));
+}
+
+function handleGroupRemoved(group: chrome.tabGroups.TabGroup): void {
+  apply(() => groups.delete(group.id));
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Starts the cache: registers event listeners and builds the model
+ * Call once, synchronously, at the top level of the service worker so the
+ * listeners are in place before events are dispatched to a waking worker.
+ */
+export function startTabCache(): void {
+  if (started) return;
+  started = true;
+
+  chrome.tabs.onCreated.addListener(handleTabCreated);
+  chrome.tabs.onUpdated.addListener(handleTabUpdated);
+  chrome.tabs.onRemoved.addListener(handleTabRemoved);
+  chrome.tabs.onMoved.addListener(handleTabMoved);
+  chrome.tabs.onDetached.addListener(handleTabDetached);
+  chrome.tabs.onAttached.addListener(handleTabAttached);
+  chrome.tabs.onActivated.addListener(handleTabActivated);
+  chrome.tabs.onReplaced.addListener(handleTabReplaced);
+  chrome.windows.onCreated.addListener(handleWindowCreated);
+  chrome.windows.onRemoved.addListener(handleWindowRemoved);
+  chrome.windows.onFocusChanged.addListener(handleWindowFocusChanged);
+  chrome.tabGroups.onCreated.addListener(handleGroupChanged);
+  chrome.tabGroups.onUpdated.addListener(handleGroupChanged);
+  chrome.tabGroups.onRemoved.addListener(handleGroupRemoved);
+
+  rebuild();
+}
+
+/**
+ * Waits until the model has been built
+ * Resolves immediately if the cache was never started in this context.
+ */
+export async function whenTabCacheReady(): Promise<void> {
+  if (rebuilding) await rebuilding;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Whether lookups can be served from the cache in this context
+ */
+export function isTabCacheReady(): boolean {
+  return ready && !rebuilding;
+}
+
+/**
+ * Gets all open tabs, ordered by window and position
+ * Returned objects are shared with the cache and must not be mutated.
+ */
+export function getCachedTabs(): chrome.tabs.Tab[] {
+  return [...tabs.values()].sort((a, b) => a.windowId - b.windowId || a.index - b.index);
+}
+
+/**
+ * Gets a tab by ID
+ *
+ * @param tabId - The tab ID
+ * @returns The tab, or undefined if it isn't open
+ */
+export function getCachedTab(tabId: number): chrome.tabs.Tab | undefined {
+  return tabs.get(tabId);
+}
+
+/**
+ * Finds the first open tab with exactly this URL
+ *
+ * @param url - The URL to search for
+ * @returns The first matching tab, or undefined
+ */
+export function findCachedTabByUrl(url: string): chrome.tabs.Tab | undefined {
+  return getCachedTabs().find((tab) => tab.url === url);
+}
+
+/**
+ * Gets the whole model in one serializable object
+ * Waits for the model to be built first.
+ */
+export async function getTabSnapshot(): Promise<TabSnapshot> {
+  await whenTabCacheReady();
+
+  if (!isTabCacheReady()) {
+    // Not started here, or the build failed - ask Chrome directly
+    const [allTabs, allWindows, allGroups] = await Promise.all([
+      chrome.tabs.query({}),
+      chrome.windows.getAll(),
+      chrome.tabGroups.query({}),
+    ]);
+    return { tabs: allTabs, windows: allWindows, groups: allGroups, capturedAt: Date.now() };
+  }
+
+  return {
+    tabs: getCachedTabs(),
+    windows: [...windows.values()],
+    groups: [...groups.values()],
+    capturedAt: Date.now(),
+  };
+}
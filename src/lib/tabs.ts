@@ -3,9 +3,14 @@
  * 
  * Provides a clean, typed interface for interacting with Chrome's tabs API.
  * Abstracts away some of the complexity and handles common edge cases.
+ * 
+ * Lookups are served from the tab cache when it is running in this context
+ * (the service worker) and go to Chrome otherwise.
  */
 
-import type { SearchResult } from './types';
+import type { HarpoonReopenFallback, SearchResult, TabPlacement, UrlMatchRule } from './types';
+import { isTabCacheReady, getCachedTabs, getCachedTab, findCachedTabByUrl } from './tabCache';
+import { matchesUrl } from './urlMatch';
 
 // =============================================================================
 // TAB QUERIES
@@ -27,6 +32,9 @@ export async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
  * @returns Array of all open tabs
  */
 export async function getAllTabs(): Promise<chrome.tabs.Tab[]> {
+  if (isTabCacheReady()) {
+    return getCachedTabs();
+  }
   return await chrome.tabs.query({});
 }
 
@@ -47,6 +55,9 @@ export async function getTabsInWindow(windowId: number): Promise<chrome.tabs.Tab
  * @returns The tab, or undefined if not found (tab was closed)
  */
 export async function getTabById(tabId: number): Promise<chrome.tabs.Tab | undefined> {
+  if (isTabCacheReady()) {
+    return getCachedTab(tabId);
+  }
   try {
     return await chrome.tabs.get(tabId);
   } catch {
@@ -57,13 +68,28 @@ export async function getTabById(tabId: number): Promise<chrome.tabs.Tab | undef
 
 /**
  * Finds a tab by URL across all windows
+ * Given a rule (e.g. a harpoon slot), uses its match mode; a tab with the
+ * identical URL is still preferred over one that only matches by rule.
  * 
- * @param url - The URL to search for
+ * @param target - The URL to search for, or a URL with a match mode
  * @returns The first matching tab, or undefined
  */
-export async function findTabByUrl(url: string): Promise<chrome.tabs.Tab | undefined> {
-  const tabs = await chrome.tabs.query({ url });
-  return tabs[0];
+export async function findTabByUrl(target: string | UrlMatchRule): Promise<chrome.tabs.Tab | undefined> {
+  const rule = typeof target === 'string' ? { url: target } : target;
+
+  if ((rule.matchMode ?? 'exact') === 'exact') {
+    if (isTabCacheReady()) {
+      return findCachedTabByUrl(rule.url);
+    }
+    const tabs = await chrome.tabs.query({ url: rule.url });
+    return tabs[0];
+  }
+
+  const tabs = await getAllTabs();
+  return (
+    tabs.find((tab) => tab.url === rule.url) ??
+    tabs.find((tab) => tab.url !== undefined && matchesUrl(rule, tab.url))
+  );
 }
 
 // =============================================================================
@@ -147,7 +173,11 @@ export async function moveTab(
 /**
  * Tab group color options
  */
-type TabGroupColor = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
+export const TAB_GROUP_COLORS = [
+  'grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange',
+] as const;
+
+type TabGroupColor = (typeof TAB_GROUP_COLORS)[number];
 
 /**
  * Groups tabs together
@@ -201,6 +231,141 @@ export async function ungroupTabs(tabIds: number[]): Promise<void> {
   await chrome.tabs.ungroup(tabIds as [number, ...number[]]);
 }
 
+// =============================================================================
+// REOPENING CLOSED TABS
+// =============================================================================
+
+/**
+ * Records where a tab sits: window, position, pinned state and group
+ * 
+ * @param tab - The tab
+ * @returns The placement, for reopenTab()
+ */
+export async function getTabPlacement(tab: chrome.tabs.Tab): Promise<TabPlacement> {
+  // group is always set, so spreading a placement over a slot clears an old one
+  const placement: TabPlacement = { windowId: tab.windowId, index: tab.index, pinned: tab.pinned, group: undefined };
+  if (tab.groupId === undefined || tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
+    return placement;
+  }
+  
+  try {
+    const group = await chrome.tabGroups.get(tab.groupId);
+    return { ...placement, group: { id: group.id, title: group.title ?? '', color: group.color } };
+  } catch {
+    // Group closed in the meantime
+    return placement;
+  }
+}
+
+/**
+ * Brings a closed tab back from the browser's recently closed list
+ * Restored tabs come back in their old window and position, with their
+ * back/forward history and form state.
+ * 
+ * @param rule - URL (and match mode) of the tab to restore
+ * @returns The restored tab, or undefined if it isn't in the list
+ */
+async function restoreRecentlyClosed(rule: UrlMatchRule): Promise<chrome.tabs.Tab | undefined> {
+  try {
+    const sessions = await chrome.sessions.getRecentlyClosed();
+    // Only single closed tabs - restoring a closed window reopens all of it
+    const closed = sessions.find((session) => session.tab?.url && matchesUrl(rule, session.tab.url));
+    if (!closed?.tab?.sessionId) return undefined;
+    
+    const restored = await chrome.sessions.restore(closed.tab.sessionId);
+    return restored.tab?.id === undefined ? undefined : restored.tab;
+  } catch (error) {
+    console.log('Tabs: Could not restore from recently closed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Checks that a window still exists and can hold tabs
+ */
+async function isNormalWindow(windowId: number): Promise<boolean> {
+  try {
+    const win = await chrome.windows.get(windowId);
+    return win.type === 'normal';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Puts a reopened tab back in its group: the same group if it's still
+ * open in the tab's window, else one with the same title and color, else
+ * a new one
+ */
+async function restoreGroup(tab: chrome.tabs.Tab, group: NonNullable<TabPlacement['group']>): Promise<void> {
+  if (tab.id === undefined) return;
+  
+  const existing = await chrome.tabGroups.get(group.id).catch(() => undefined);
+  const [target] = existing?.windowId === tab.windowId
+    ? [existing]
+    : await chrome.tabGroups.query({ windowId: tab.windowId, title: group.title, color: group.color });
+  
+  if (target) {
+    await chrome.tabs.group({ groupId: target.id, tabIds: tab.id });
+  } else {
+    await groupTabs([tab.id], { title: group.title, color: group.color, windowId: tab.windowId });
+  }
+}
+
+/**
+ * Reopens a closed tab where it was
+ * Prefers the browser's recently closed list (history and form state come
+ * back too). Otherwise opens the URL in the tab's old window and position,
+ * pinned and grouped as it was - or, if that window is gone, in the
+ * fallback. The reopened tab is focused.
+ * 
+ * @param rule - URL (and match mode) of the tab
+ * @param placement - Where the tab was
+ * @param fallback - Where to open it if its window is gone
+ * @returns The reopened tab
+ */
+export async function reopenTab(
+  rule: UrlMatchRule,
+  placement: TabPlacement,
+  fallback: HarpoonReopenFallback
+): Promise<chrome.tabs.Tab> {
+  const restored = await restoreRecentlyClosed(rule);
+  if (restored) {
+    await switchToTab(restored.id!, restored.windowId);
+    return restored;
+  }
+  
+  let tab: chrome.tabs.Tab;
+  if (placement.windowId !== undefined && await isNormalWindow(placement.windowId)) {
+    tab = await chrome.tabs.create({
+      url: rule.url,
+      windowId: placement.windowId,
+      index: placement.index,
+      pinned: placement.pinned,
+    });
+  } else if (fallback === 'new-window') {
+    const win = await chrome.windows.create({ url: rule.url, focused: true });
+    tab = win?.tabs?.[0] ?? await createTab(rule.url);
+    if (placement.pinned && tab.id !== undefined) {
+      tab = (await chrome.tabs.update(tab.id, { pinned: true })) ?? tab;
+    }
+  } else {
+    tab = await chrome.tabs.create({ url: rule.url, pinned: placement.pinned });
+  }
+  
+  // Pinned tabs can't be grouped
+  if (placement.group && !placement.pinned) {
+    await restoreGroup(tab, placement.group).catch((error) => {
+      console.log('Tabs: Could not restore tab group:', error);
+    });
+  }
+  
+  if (tab.id !== undefined) {
+    await switchToTab(tab.id, tab.windowId);
+  }
+  return tab;
+}
+
 // =============================================================================
 // CONVERSION UTILITIES
 // =============================================================================
@@ -224,6 +389,11 @@ export function tabToSearchResult(
     favicon: tab.favIconUrl,
     windowId: tab.windowId,
     harpoonSlot,
+    groupId: tab.groupId !== undefined && tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE ? tab.groupId : undefined,
+    pinned: tab.pinned,
+    audible: tab.audible,
+    muted: tab.mutedInfo?.muted,
+    discarded: tab.discarded,
   };
 }
 
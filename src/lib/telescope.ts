@@ -1,13 +1,32 @@
 /**
  * Telescope - Fuzzy Search Module
  * 
- * Provides fuzzy search functionality for tabs, history, and bookmarks.
- * Uses fuse.js for fast, typo-tolerant searching.
+ * Provides fuzzy search functionality for tabs, history, and bookmarks,
+ * and for all of them at once together with workspaces and harpoon slots.
+ * Uses fuse.js for fast, typo-tolerant searching. Queries are parsed by
+ * searchQuery.ts; every mode applies their filters the same way. Matches
+ * are ranked by fuzzy score blended with frecency (see frecency.ts). Tab
+ * order without search text, and in recent mode, comes from the MRU
+ * tracker (see mru.ts).
  */
 
-import Fuse, { type IFuseOptions } from 'fuse.js';
-import type { SearchResult, SearchMode, HarpoonState } from './types';
+import Fuse, { type Expression, type FuseResult, type IFuseOptions, type RangeTuple } from 'fuse.js';
+import type {
+  SearchResult,
+  SearchResultType,
+  HarpoonSlot,
+  HarpoonState,
+  ParsedSearchQuery,
+  SearchFilterContext,
+  FrecencyRanking,
+  WorkspaceState,
+} from './types';
+import { EMPTY_FILTER_CONTEXT, getFusePatterns, getPlainText, matchesQueryFilters } from './searchQuery';
 import { getAllTabs, tabToSearchResult } from './tabs';
+import { getActiveSlots, findSlotForUrl } from './harpoon';
+import { sortByRecency } from './mru';
+import { NO_FRECENCY, normalizeFrecency } from './frecency';
+import { mergeRanges } from './highlight';
 
 // =============================================================================
 // FUSE.JS CONFIGURATION
@@ -28,65 +47,108 @@ const FUSE_OPTIONS: IFuseOptions<SearchResult> = {
   threshold: 0.4,
   // Include match information for highlighting
   includeMatches: true,
+  // Include match quality, for ranking across sources
+  includeScore: true,
   // Ignore location - match anywhere in the string
   ignoreLocation: true,
   // Minimum characters before searching
   minMatchCharLength: 1,
-  // Use extended search for more control
-  useExtendedSearch: false,
+  // Extended search, for ^prefix, 'exact and suffix$ terms
+  useExtendedSearch: true,
 };
 
 // =============================================================================
-// QUERY PARSING
+// RESULT KEYS
 // =============================================================================
 
 /**
- * Search mode prefixes
- * Users can type these at the start of their query to switch modes
+ * Gets a key that identifies a result across sources
+ * IDs alone can collide in the everything mode (tab 5, harpoon slot 5...).
+ * 
+ * @param result - A search result
  */
-const MODE_PREFIXES = {
-  history: ['h:', 'H:'],
-  bookmarks: ['b:', 'B:'],
-} as const;
+export function getResultKey(result: SearchResult): string {
+  return `${result.type}:${result.id}`;
+}
+
+// =============================================================================
+// QUERY EVALUATION
+// =============================================================================
 
 /**
- * Parses a search query to extract the mode and actual search term
- * 
- * @param query - Raw query string from input
- * @returns Object with mode and cleaned search term
+ * Fields every fuzzy term is matched against
+ */
+const FUSE_KEYS = ['title', 'url'] as const;
+
+/**
+ * Copies a matched result, adding the title and URL ranges Fuse matched
  * 
- * @example
- * parseSearchQuery('h:google')  // { mode: 'history', searchTerm: 'google' }
- * parseSearchQuery('b:recipes') // { mode: 'bookmarks', searchTerm: 'recipes' }
- * parseSearchQuery('github')    // { mode: 'tabs', searchTerm: 'github' }
- */
-export function parseSearchQuery(query: string): { mode: SearchMode; searchTerm: string } {
-  const trimmedQuery = query.trim();
-  
-  // Check for history prefix
-  for (const prefix of MODE_PREFIXES.history) {
-    if (trimmedQuery.startsWith(prefix)) {
-      return {
-        mode: 'history',
-        searchTerm: trimmedQuery.slice(prefix.length).trim(),
-      };
+ * @param result - A Fuse result (searched with includeMatches)
+ */
+function withMatchRanges(result: FuseResult<SearchResult>): SearchResult {
+  const ranges: Record<'title' | 'url', RangeTuple[]> = { title: [], url: [] };
+  for (const match of result.matches ?? []) {
+    if (match.key === 'title' || match.key === 'url') {
+      ranges[match.key].push(...match.indices);
     }
   }
   
-  // Check for bookmarks prefix
-  for (const prefix of MODE_PREFIXES.bookmarks) {
-    if (trimmedQuery.startsWith(prefix)) {
-      return {
-        mode: 'bookmarks',
-        searchTerm: trimmedQuery.slice(prefix.length).trim(),
-      };
-    }
+  return {
+    ...result.item,
+    titleMatches: mergeRanges(ranges.title),
+    urlMatches: mergeRanges(ranges.url),
+  };
+}
+
+/**
+ * Narrows results to those matching a parsed query
+ * Filters and negated terms are applied first; the remaining terms are
+ * fuzzy matched, each against title or URL, and must all match.
+ * 
+ * @param results - Results to search
+ * @param query - The parsed query
+ * @param context - Windows, groups and workspaces the filters refer to
+ * @param ranking - Frecency scores to blend into the fuzzy scores
+ * @returns Matching results (with match ranges for highlighting), with
+ *   their blended scores (0 = best) in ranked order - or scores null if there was nothing to fuzzy match, leaving the
+ *   order to the caller
+ */
+function evaluateQuery(
+  results: SearchResult[],
+  query: ParsedSearchQuery,
+  context: SearchFilterContext,
+  ranking: FrecencyRanking
+): { matches: SearchResult[]; scores: number[] | null } {
+  const filtered = results.filter((result) => matchesQueryFilters(result, query, context));
+  const patterns = getFusePatterns(query);
+  if (patterns.length === 0) {
+    return { matches: filtered, scores: null };
+  }
+  
+  // One $or per term, so a term may match the title while another matches the URL
+  const expression: Expression = {
+    $and: patterns.map((pattern) => ({
+      $or: FUSE_KEYS.map((key) => ({ [key]: pattern })),
+    })),
+  };
+  const fuseResults = new Fuse(filtered, FUSE_OPTIONS).search(expression);
+  
+  // Fuse scores run from 0 (perfect) to 1; frecency counts the other way
+  const blended = fuseResults.map((result) => {
+    const relevance = 1 - (result.score ?? 0);
+    const frecency = normalizeFrecency(ranking.scores[result.item.url] ?? 0);
+    return {
+      item: withMatchRanges(result),
+      score: 1 - ((1 - ranking.blend) * relevance + ranking.blend * frecency),
+    };
+  });
+  if (ranking.blend > 0) {
+    blended.sort((a, b) => a.score - b.score);
   }
   
-  // Default to tabs mode
   return {
-    mode: 'tabs',
-    searchTerm: trimmedQuery,
+    matches: blended.map((result) => result.item),
+    scores: blended.map((result) => result.score),
   };
 }
 
@@ -95,48 +157,77 @@ export function parseSearchQuery(query: string): { mode: SearchMode; searchTerm:
 // =============================================================================
 
 /**
- * Searches through all open tabs across all windows
+ * Converts open tabs to search results, marking harpooned tabs
  * 
- * @param query - Search term (already parsed, without prefix)
  * @param harpoonState - Current harpoon state to mark harpooned tabs
- * @returns Array of matching search results
+ * @param openTabs - Tabs to convert, e.g. from a tab snapshot (queried if omitted)
  */
-export async function searchTabs(
-  query: string,
-  harpoonState: HarpoonState | null
+async function getTabResults(
+  harpoonState: HarpoonState | null,
+  openTabs?: chrome.tabs.Tab[]
 ): Promise<SearchResult[]> {
   // Get all open tabs
-  const tabs = await getAllTabs();
-  
-  // Create a map of URL -> harpoon slot for quick lookup
-  const harpoonMap = new Map<string, number>();
-  if (harpoonState) {
-    harpoonState.slots.forEach((slot, index) => {
-      if (slot) {
-        harpoonMap.set(slot.url, index + 1);
-      }
-    });
-  }
+  const tabs = openTabs ?? await getAllTabs();
+  
+  // Harpoon slots of the active list, matched per slot's URL match mode
+  const slots = harpoonState ? getActiveSlots(harpoonState) : [];
   
   // Convert tabs to search results
-  const results: SearchResult[] = tabs
+  return tabs
     .filter((tab) => tab.id !== undefined && tab.url) // Filter out invalid tabs
     .map((tab) => {
-      const harpoonSlot = tab.url ? harpoonMap.get(tab.url) : undefined;
+      const harpoonSlot = tab.url ? findSlotForUrl(slots, tab.url) : undefined;
       return tabToSearchResult(tab, harpoonSlot);
     });
+}
+
+/**
+ * Searches through all open tabs across all windows
+ * 
+ * @param query - Parsed query
+ * @param harpoonState - Current harpoon state to mark harpooned tabs
+ * @param openTabs - Tabs to search, e.g. from a tab snapshot (queried if omitted)
+ * @param recentTabIds - Tab IDs by recency, to order results without search text
+ * @param context - Windows, groups and workspaces for the query's filters
+ * @param ranking - Frecency scores to blend into the match ranking
+ * @returns Array of matching search results
+ */
+export async function searchTabs(
+  query: ParsedSearchQuery,
+  harpoonState: HarpoonState | null,
+  openTabs?: chrome.tabs.Tab[],
+  recentTabIds: number[] = [],
+  context: SearchFilterContext = EMPTY_FILTER_CONTEXT,
+  ranking: FrecencyRanking = NO_FRECENCY
+): Promise<SearchResult[]> {
+  const results = await getTabResults(harpoonState, openTabs);
+  const { matches, scores } = evaluateQuery(results, query, context, ranking);
   
-  // If no query, return all tabs (sorted by most recently accessed)
-  if (!query) {
-    return results;
-  }
-  
-  // Perform fuzzy search
-  const fuse = new Fuse(results, FUSE_OPTIONS);
-  const searchResults = fuse.search(query);
+  // Without search text, sort by most recently accessed
+  return scores ? matches : sortByRecency(matches, (result) => Number(result.id), recentTabIds);
+}
+
+/**
+ * Searches open tabs, ordered by recency instead of match quality
+ * 
+ * @param query - Parsed query
+ * @param harpoonState - Current harpoon state to mark harpooned tabs
+ * @param openTabs - Tabs to search, e.g. from a tab snapshot (queried if omitted)
+ * @param recentTabIds - Tab IDs by recency
+ * @param context - Windows, groups and workspaces for the query's filters
+ * @returns Matching tabs, most recently used first
+ */
+export async function searchRecentTabs(
+  query: ParsedSearchQuery,
+  harpoonState: HarpoonState | null,
+  openTabs: chrome.tabs.Tab[] | undefined,
+  recentTabIds: number[],
+  context: SearchFilterContext = EMPTY_FILTER_CONTEXT
+): Promise<SearchResult[]> {
+  const results = await getTabResults(harpoonState, openTabs);
+  const { matches } = evaluateQuery(results, query, context, NO_FRECENCY);
   
-  // Extract items from fuse results
-  return searchResults.map((result) => result.item);
+  return sortByRecency(matches, (result) => Number(result.id), recentTabIds);
 }
 
 // =============================================================================
@@ -150,22 +241,21 @@ export async function searchTabs(
 const MAX_HISTORY_ITEMS = 1000;
 
 /**
- * Searches through browser history
+ * Gets history entries as search results
  * 
- * @param query - Search term
- * @returns Array of matching search results
+ * @param query - Parsed query; its plain words narrow Chrome's own search
+ *   (recent history if there are none)
  */
-export async function searchHistory(query: string): Promise<SearchResult[]> {
+async function getHistoryResults(query: ParsedSearchQuery): Promise<SearchResult[]> {
   // Search history using Chrome's API
-  // If query is empty, get recent history
   const historyItems = await chrome.history.search({
-    text: query || '',
+    text: getPlainText(query),
     maxResults: MAX_HISTORY_ITEMS,
     startTime: 0, // From the beginning of time
   });
   
   // Convert to search results
-  const results: SearchResult[] = historyItems
+  return historyItems
     .filter((item) => item.url && item.title) // Filter out invalid items
     .map((item) => ({
       type: 'history' as const,
@@ -174,16 +264,31 @@ export async function searchHistory(query: string): Promise<SearchResult[]> {
       url: item.url!,
       lastVisited: item.lastVisitTime,
     }));
+}
+
+/**
+ * Searches through browser history
+ * 
+ * @param query - Parsed query
+ * @param context - Windows, groups and workspaces for the query's filters
+ * @param ranking - Frecency scores to blend into the match ranking
+ * @returns Array of matching search results
+ */
+export async function searchHistory(
+  query: ParsedSearchQuery,
+  context: SearchFilterContext = EMPTY_FILTER_CONTEXT,
+  ranking: FrecencyRanking = NO_FRECENCY
+): Promise<SearchResult[]> {
+  const results = await getHistoryResults(query);
   
-  // If query provided, do additional fuzzy filtering for better results
-  if (query) {
-    const fuse = new Fuse(results, FUSE_OPTIONS);
-    const searchResults = fuse.search(query);
-    return searchResults.map((result) => result.item);
+  // Apply filters, plus fuzzy matching for better results
+  const { matches, scores } = evaluateQuery(results, query, context, ranking);
+  if (scores) {
+    return matches;
   }
   
-  // Return results sorted by last visited (most recent first)
-  return results.sort((a, b) => (b.lastVisited || 0) - (a.lastVisited || 0));
+  // Without search text, sort by last visited (most recent first)
+  return matches.sort((a, b) => (b.lastVisited || 0) - (a.lastVisited || 0));
 }
 
 // =============================================================================
@@ -217,12 +322,9 @@ function flattenBookmarks(
 }
 
 /**
- * Searches through bookmarks
- * 
- * @param query - Search term
- * @returns Array of matching search results
+ * Gets all bookmarks as search results, in tree order
  */
-export async function searchBookmarks(query: string): Promise<SearchResult[]> {
+async function getBookmarkResults(): Promise<SearchResult[]> {
   // Get entire bookmark tree
   const bookmarkTree = await chrome.bookmarks.getTree();
   
@@ -230,21 +332,160 @@ export async function searchBookmarks(query: string): Promise<SearchResult[]> {
   const bookmarks = flattenBookmarks(bookmarkTree);
   
   // Convert to search results
-  const results: SearchResult[] = bookmarks.map((bookmark) => ({
+  return bookmarks.map((bookmark) => ({
     type: 'bookmark' as const,
     id: bookmark.id,
     title: bookmark.title || 'Untitled',
     url: bookmark.url || '',
   }));
+}
+
+/**
+ * Searches through bookmarks
+ * 
+ * @param query - Parsed query
+ * @param context - Windows, groups and workspaces for the query's filters
+ * @param ranking - Frecency scores to blend into the match ranking
+ * @returns Array of matching search results
+ */
+export async function searchBookmarks(
+  query: ParsedSearchQuery,
+  context: SearchFilterContext = EMPTY_FILTER_CONTEXT,
+  ranking: FrecencyRanking = NO_FRECENCY
+): Promise<SearchResult[]> {
+  const results = await getBookmarkResults();
   
-  // If no query, return all bookmarks
-  if (!query) {
-    return results;
-  }
+  // Without search text, matching bookmarks stay in tree order
+  return evaluateQuery(results, query, context, ranking).matches;
+}
+
+// =============================================================================
+// EVERYTHING SEARCH
+// =============================================================================
+
+/**
+ * Sources the everything mode merges, with a short label, in the order
+ * their weights are offered
+ */
+export const SEARCH_SOURCES: { type: SearchResultType; label: string }[] = [
+  { type: 'tab', label: 'Open tabs' },
+  { type: 'harpoon', label: 'Harpoon slots' },
+  { type: 'workspace', label: 'Workspaces' },
+  { type: 'bookmark', label: 'Bookmarks' },
+  { type: 'history', label: 'History' },
+];
+
+/**
+ * Converts the active list's filled harpoon slots to search results
+ * 
+ * @param harpoonState - Current harpoon state
+ */
+function getHarpoonResults(harpoonState: HarpoonState | null): SearchResult[] {
+  if (!harpoonState) return [];
   
-  // Perform fuzzy search
-  const fuse = new Fuse(results, FUSE_OPTIONS);
-  const searchResults = fuse.search(query);
+  return getActiveSlots(harpoonState)
+    .filter((slot): slot is HarpoonSlot => slot !== null)
+    .map((slot) => ({
+      type: 'harpoon' as const,
+      id: String(slot.id),
+      title: slot.title || 'Untitled',
+      url: slot.url,
+      favicon: slot.favicon,
+      harpoonSlot: slot.id,
+    }));
+}
+
+/**
+ * Converts workspaces to search results (matched by name only)
+ * 
+ * @param workspaceState - Current workspace state
+ */
+function getWorkspaceResults(workspaceState: WorkspaceState | null): SearchResult[] {
+  if (!workspaceState) return [];
+  
+  return workspaceState.workspaces.map((workspace) => ({
+    type: 'workspace' as const,
+    id: workspace.id,
+    title: workspace.name,
+    url: '',
+  }));
+}
+
+/**
+ * Drops results whose URL an earlier result already has
+ * Results are passed in order of preference, so an open tab hides the
+ * bookmark and history entries for the same page. Results without a URL
+ * (workspaces) are always kept.
+ * 
+ * @param results - Results, most preferred source first
+ */
+function dedupeByUrl(results: SearchResult[]): SearchResult[] {
+  const seen = new Set<string>();
+  return results.filter((result) => {
+    if (!result.url) return true;
+    if (seen.has(result.url)) return false;
+    seen.add(result.url);
+    return true;
+  });
+}
+
+/**
+ * Searches open tabs, history, bookmarks, workspaces and harpoon slots at once
+ * Entries for the same URL are merged (preferring the open tab, then the
+ * harpoon slot, bookmark and history entry). Each result's fuzzy score is
+ * scaled by its source's weight, and everything is returned as one list;
+ * sources weighted 0 are left out.
+ * 
+ * @param query - Parsed query
+ * @param harpoonState - Current harpoon state to mark harpooned tabs
+ * @param openTabs - Tabs to search, e.g. from a tab snapshot (queried if omitted)
+ * @param recentTabIds - Tab IDs by recency, to order tabs without search text
+ * @param weights - Score weight per source (see Settings)
+ * @param context - Windows, groups and workspaces for the query's filters
+ * @param ranking - Frecency scores to blend into the match ranking
+ * @returns Matching results from all sources, best first
+ */
+export async function searchEverything(
+  query: ParsedSearchQuery,
+  harpoonState: HarpoonState | null,
+  openTabs: chrome.tabs.Tab[] | undefined,
+  recentTabIds: number[],
+  weights: Record<SearchResultType, number>,
+  context: SearchFilterContext = EMPTY_FILTER_CONTEXT,
+  ranking: FrecencyRanking = NO_FRECENCY
+): Promise<SearchResult[]> {
+  const [tabs, history, bookmarks] = await Promise.all([
+    getTabResults(harpoonState, openTabs),
+    getHistoryResults(query),
+    getBookmarkResults(),
+  ]);
+  
+  // Slots whose tab is open are already covered by the tab's harpoon badge
+  const openSlots = new Set(tabs.map((tab) => tab.harpoonSlot));
+  const slots = getHarpoonResults(harpoonState).filter((slot) => !openSlots.has(slot.harpoonSlot));
+  
+  // Each source in its own order, so ties keep it
+  const merged = dedupeByUrl([
+    ...sortByRecency(tabs, (result) => Number(result.id), recentTabIds),
+    ...slots,
+    ...bookmarks,
+    ...history.sort((a, b) => (b.lastVisited || 0) - (a.lastVisited || 0)),
+  ]).concat(getWorkspaceResults(context.workspaceState));
+  
+  const { matches, scores } = evaluateQuery(
+    merged.filter((result) => weights[result.type] > 0),
+    query,
+    context,
+    ranking
+  );
+  
+  // Scores run from 0 (best) to 1; without search text all match equally
+  const ranked = matches.map((result, index) => ({
+    result,
+    rank: (1 - (scores?.[index] ?? 0)) * weights[result.type],
+  }));
   
-  return searchResults.map((result) => result.item);
+  return ranked
+    .sort((a, b) => b.rank - a.rank)
+    .map((entry) => entry.result);
 }
@@ -12,7 +12,7 @@
 /**
  * Represents a single harpoon slot that can hold a quick-access tab
  */
-export interface HarpoonSlot {
+export interface HarpoonSlot extends UrlMatchRule, TabPlacement {
   /** Slot number (1-10) */
   id: number;
   /** Current Chrome tab ID (may become stale if tab is closed) */
@@ -23,36 +23,154 @@ export interface HarpoonSlot {
   title: string;
   /** Favicon URL for visual identification */
   favicon?: string;
+  /** Whether the slot's URL follows its tab's navigation (absent: 'pinned') */
+  followPolicy?: SlotFollowPolicy;
+  /** Problem seen the last time the slot's page loaded (absent: none seen) */
+  health?: SlotHealth;
+}
+
+/**
+ * A problem with a harpoon slot's page, seen when it last loaded
+ * - 'unreachable': the page failed to load (DNS, connection, certificate...)
+ * - 'redirected': loading it ended up on another URL, e.g. a login page
+ */
+export interface SlotHealth {
+  /** What went wrong */
+  status: 'unreachable' | 'redirected';
+  /** Chrome's network error, e.g. net::ERR_NAME_NOT_RESOLVED ('unreachable' only) */
+  error?: string;
+  /** Where the page redirected to ('redirected' only) */
+  redirectUrl?: string;
+  /** When the problem was first seen, in ms */
+  since: number;
+}
+
+/**
+ * Where a tab was last seen, so it can be reopened in the same place
+ * Window and group IDs only last for the browser session; after a restart
+ * the tab is reopened in the fallback window instead.
+ */
+export interface TabPlacement {
   /** Window ID where the tab lives */
   windowId?: number;
+  /** Position of the tab in its window */
+  index?: number;
+  /** Whether the tab is pinned */
+  pinned?: boolean;
+  /** Tab group the tab is in (absent if ungrouped) */
+  group?: TabPlacementGroup;
+}
+
+/**
+ * A tab group as remembered for reopening; title and color let the group
+ * be recreated once it's gone
+ */
+export interface TabPlacementGroup {
+  /** Chrome tab group ID */
+  id: number;
+  /** Group title */
+  title: string;
+  /** Group color */
+  color: `${chrome.tabGroups.Color}`;
+}
+
+/**
+ * Where a closed harpoon tab is reopened when its window no longer exists
+ * - 'current-window': the focused window
+ * - 'new-window': a new window of its own
+ */
+export type HarpoonReopenFallback = 'current-window' | 'new-window';
+
+/**
+ * How a harpoon slot decides which open tab is "its" tab
+ * - 'exact': the URL must be identical (default)
+ * - 'ignore-hash': anything after # may differ
+ * - 'ignore-query': the query string and hash may differ
+ * - 'path-prefix': same origin, and the path starts with the slot's path
+ * - 'origin': any page on the same origin
+ * - 'regex': the URL matches the slot's matchPattern
+ */
+export type UrlMatchMode = 'exact' | 'ignore-hash' | 'ignore-query' | 'path-prefix' | 'origin' | 'regex';
+
+/**
+ * What happens to a harpoon slot's URL when its tab navigates
+ * - 'pinned': the slot keeps the URL it was marked on (default)
+ * - 'follow': the slot takes on the tab's new URL
+ * - 'follow-origin': like 'follow', but only while the tab stays on the
+ *   slot's origin
+ */
+export type SlotFollowPolicy = 'pinned' | 'follow' | 'follow-origin';
+
+/**
+ * A URL plus the rule for which other URLs count as the same page
+ */
+export interface UrlMatchRule {
+  /** URL the rule was made for (also what is opened to recreate the tab) */
+  url: string;
+  /** Matching strategy (absent: 'exact') */
+  matchMode?: UrlMatchMode;
+  /** Regular expression for 'regex' mode */
+  matchPattern?: string;
+}
+
+/**
+ * A named set of harpoon slots
+ */
+export interface HarpoonList {
+  /** Unique identifier */
+  id: string;
+  /** User-defined list name */
+  name: string;
+  /** Array of harpoon slots (sparse - empty slots are null) */
+  slots: (HarpoonSlot | null)[];
 }
 
 /**
  * Complete harpoon state stored in chrome.storage.local
  */
 export interface HarpoonState {
-  /** Array of harpoon slots (sparse - empty slots are undefined) */
-  slots: (HarpoonSlot | null)[];
-  /** Maximum number of slots (user configurable, default 5, max 10) */
+  /** All harpoon lists (at least one) */
+  lists: HarpoonList[];
+  /** The list that slot jumps and marks act on */
+  activeListId: string;
+  /** Maximum number of slots per list (user configurable, default 5, max 10) */
   maxSlots: number;
 }
 
+/**
+ * The last two slots jumped between, for the "toggle last harpoon" jump
+ * Kept in chrome.storage.session: it only means something while the
+ * browser is open.
+ */
+export interface HarpoonJumpRecord {
+  /** The list the slots belong to */
+  listId: string;
+  /** Slot jumped to most recently (1-indexed) */
+  current: number;
+  /** Slot the jump before it came from (1-indexed, null if none) */
+  previous: number | null;
+}
+
 // =============================================================================
 // TELESCOPE / SEARCH TYPES
 // =============================================================================
 
 /**
  * The type of item being searched/displayed
+ * 'workspace' and 'harpoon' results only come up in the everything mode.
  */
-export type SearchResultType = 'tab' | 'history' | 'bookmark';
+export type SearchResultType = 'tab' | 'history' | 'bookmark' | 'workspace' | 'harpoon';
 
 /**
  * Search mode determined by query prefix
  * - 'tabs': default, search open tabs
  * - 'history': triggered by 'h:' prefix
  * - 'bookmarks': triggered by 'b:' prefix
+ * - 'recent': triggered by 'm:' prefix, open tabs by recency
+ * - 'everything': triggered by 'e:' prefix, all of the above plus
+ *   workspaces and harpoon slots, in one ranked list
  */
-export type SearchMode = 'tabs' | 'history' | 'bookmarks';
+export type SearchMode = 'tabs' | 'history' | 'bookmarks' | 'recent' | 'everything';
 
 /**
  * A single search result item
@@ -60,7 +178,7 @@ export type SearchMode = 'tabs' | 'history' | 'bookmarks';
 export interface SearchResult {
   /** Type of result for rendering and action handling */
   type: SearchResultType;
-  /** Unique identifier (tab ID, history ID, or bookmark ID) */
+  /** Unique identifier (tab ID, history ID, bookmark ID, workspace ID or slot number) */
   id: string;
   /** Page title */
   title: string;
@@ -74,6 +192,83 @@ export interface SearchResult {
   lastVisited?: number;
   /** Harpoon slot number if this tab is harpooned */
   harpoonSlot?: number;
+  /** Tab group ID (for grouped tabs only) */
+  groupId?: number;
+  /** Whether the tab is pinned (for tabs only) */
+  pinned?: boolean;
+  /** Whether the tab is playing sound (for tabs only) */
+  audible?: boolean;
+  /** Whether the tab is muted (for tabs only) */
+  muted?: boolean;
+  /** Whether the tab has been discarded to save memory (for tabs only) */
+  discarded?: boolean;
+  /** Characters of the title the query matched (absent without search text) */
+  titleMatches?: MatchRange[];
+  /** Characters of the URL the query matched (absent without search text) */
+  urlMatches?: MatchRange[];
+}
+
+/**
+ * A run of matched characters, as [start, end] indices (both inclusive)
+ */
+export type MatchRange = [number, number];
+
+/**
+ * Fields a Telescope filter can test, e.g. `domain` in `domain:github.com`
+ */
+export type SearchFilterField = 'domain' | 'window' | 'ws' | 'is' | 'group';
+
+/**
+ * Tab states `is:` can test
+ */
+export type SearchTabState = 'pinned' | 'audible' | 'muted' | 'discarded';
+
+/**
+ * One term of a parsed Telescope query
+ * - 'text': a word, fuzzy matched unless it uses a Fuse extended-search
+ *   operator (`^prefix`, `'exact`, `suffix$`, `=whole`)
+ * - 'phrase': a "quoted phrase", matched literally
+ * - 'filter': a `field:value` test on the result
+ * Negated terms (`-term`) exclude what they would match.
+ */
+export type SearchQueryTerm =
+  | { kind: 'text'; pattern: string; negated: boolean }
+  | { kind: 'phrase'; text: string; negated: boolean }
+  | { kind: 'filter'; field: SearchFilterField; value: string; negated: boolean };
+
+/**
+ * A part of a Telescope query that could not be understood
+ * The term is left out of the search.
+ */
+export interface SearchQueryError {
+  /** The offending part of the query, as typed */
+  token: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * A Telescope query, parsed
+ */
+export interface ParsedSearchQuery {
+  /** Search mode from the query prefix */
+  mode: SearchMode;
+  /** Terms a result must satisfy, in the order typed */
+  terms: SearchQueryTerm[];
+  /** Parts of the query that were left out */
+  errors: SearchQueryError[];
+}
+
+/**
+ * What filters need to know beyond the result itself
+ */
+export interface SearchFilterContext {
+  /** Open windows, in the order `window:` counts them */
+  windows: chrome.windows.Window[];
+  /** Tab groups, for `group:` */
+  groups: chrome.tabGroups.TabGroup[];
+  /** Workspaces, for `ws:` */
+  workspaceState: WorkspaceState | null;
 }
 
 /**
@@ -92,6 +287,31 @@ export interface SearchState {
   isLoading: boolean;
 }
 
+/**
+ * A page as bulk actions see it (any selected result, tab or not)
+ */
+export interface BulkPage {
+  title: string;
+  url: string;
+}
+
+/**
+ * What to do with the selected Telescope results
+ * Tab actions apply to the selected open tabs; 'bookmark' and 'copy'
+ * apply to every selected page.
+ */
+export type BulkAction =
+  | { kind: 'close' }
+  | { kind: 'reload' }
+  | { kind: 'pin'; pinned: boolean }
+  | { kind: 'mute'; muted: boolean }
+  | { kind: 'discard' }
+  | { kind: 'move'; windowId: number | null }
+  | { kind: 'workspace'; workspaceId: string }
+  | { kind: 'group'; title: string }
+  | { kind: 'bookmark'; folderId: string }
+  | { kind: 'copy' };
+
 // =============================================================================
 // WORKSPACE TYPES
 // =============================================================================
@@ -112,6 +332,8 @@ export interface Workspace {
   color?: string;
   /** Whether this is the default workspace for new tabs */
   isDefault?: boolean;
+  /** Harpoon list this workspace owns (absent: uses the global list) */
+  harpoonListId?: string;
 }
 
 /**
@@ -141,6 +363,17 @@ export type KeybindAction =
   | 'harpoon3'
   | 'harpoon4'
   | 'harpoon5'
+  | 'harpoon6'
+  | 'harpoon7'
+  | 'harpoon8'
+  | 'harpoon9'
+  | 'harpoon10'
+  | 'harpoonNext'
+  | 'harpoonPrev'
+  | 'harpoonLast'
+  | 'harpoonLeader'
+  | 'harpoonListNext'
+  | 'tabPrevious'
   | 'workspaceNext'
   | 'workspacePrev'
   | 'navigateUp'
@@ -162,12 +395,18 @@ export interface Settings {
   harpoonMaxSlots: number;
   /** Whether to reopen a closed tab when jumping to it */
   harpoonReopenClosed: boolean;
+  /** Where to reopen a closed tab whose window is gone */
+  harpoonReopenFallback: HarpoonReopenFallback;
 
   // -- Telescope --
   /** Show URLs in search results */
   telescopeShowUrls: boolean;
   /** Maximum number of search results to display */
   telescopeMaxResults: number;
+  /** How much each source counts in the everything mode (0 leaves it out) */
+  telescopeSourceWeights: Record<SearchResultType, number>;
+  /** Share of frecency in result ranking, from 0 (match quality only) to 1 */
+  telescopeFrecencyBlend: number;
 
   // -- Workspaces --
   /** Default workspace name for uncategorized tabs */
@@ -176,6 +415,175 @@ export interface Settings {
   // -- UI --
   /** Color theme preference */
   theme: 'system' | 'light' | 'dark';
+
+  // -- Sync --
+  /** Mirror settings, harpoon slots and workspaces to chrome.storage.sync */
+  syncEnabled: boolean;
+}
+
+// =============================================================================
+// SYNC TYPES
+// =============================================================================
+
+/**
+ * The parts of a chrome.storage area the sync backend relies on
+ * chrome.storage.sync satisfies this; tests can pass an in-memory stand-in
+ */
+export interface SyncStorageArea {
+  get(keys: string[] | null): Promise<Record<string, unknown>>;
+  set(items: Record<string, unknown>): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+/**
+ * Device-independent part of a harpoon slot (no tab or window IDs)
+ */
+export interface SyncedHarpoonSlot {
+  url: string;
+  title: string;
+  favicon?: string;
+  matchMode?: UrlMatchMode;
+  matchPattern?: string;
+  followPolicy?: SlotFollowPolicy;
+}
+
+/**
+ * Device-independent part of a harpoon list
+ */
+export interface SyncedHarpoonList {
+  id: string;
+  name: string;
+  slots: (SyncedHarpoonSlot | null)[];
+}
+
+/**
+ * Device-independent part of a workspace (no tab IDs)
+ */
+export interface SyncedWorkspace {
+  id: string;
+  name: string;
+  tabUrls: string[];
+  color?: string;
+  isDefault?: boolean;
+  harpoonListId?: string;
+}
+
+/**
+ * Everything that is shared between devices
+ */
+export interface SyncPayload {
+  /** All settings except device-local ones (e.g. syncEnabled itself) */
+  settings: Partial<Settings>;
+  /** Harpoon lists; which one is active is device-local */
+  harpoon: {
+    maxSlots: number;
+    lists: SyncedHarpoonList[];
+  };
+  workspaces: SyncedWorkspace[];
+}
+
+/**
+ * A sync payload as written to sync storage, tagged with its writer
+ */
+export interface SyncEnvelope {
+  /** Random ID of the device that wrote this payload */
+  deviceId: string;
+  /** Write time in ms */
+  updatedAt: number;
+  payload: SyncPayload;
+}
+
+// =============================================================================
+// TAB CACHE TYPES
+// =============================================================================
+
+/**
+ * The service worker's view of open tabs, windows and tab groups,
+ * handed to the popup in a single message
+ */
+export interface TabSnapshot {
+  /** All open tabs, ordered by window and position */
+  tabs: chrome.tabs.Tab[];
+  /** All open windows (without their tabs) */
+  windows: chrome.windows.Window[];
+  /** All tab groups */
+  groups: chrome.tabGroups.TabGroup[];
+  /** When the snapshot was taken, in ms */
+  capturedAt: number;
+}
+
+// =============================================================================
+// FRECENCY TYPES
+// =============================================================================
+
+/**
+ * How a page was visited, for frecency scoring
+ * - 'select': picked from Telescope's results
+ * - 'harpoon': jumped to through a harpoon slot
+ * - 'activate': its tab was activated (clicked, cycled to...)
+ */
+export type FrecencyEvent = 'select' | 'harpoon' | 'activate';
+
+/**
+ * A page's stored frecency score
+ */
+export interface FrecencyEntry {
+  /** Score as of updatedAt; it decays from there */
+  score: number;
+  /** When the score was last changed, in ms */
+  updatedAt: number;
+}
+
+/**
+ * What Telescope needs to blend frecency into its ranking
+ */
+export interface FrecencyRanking {
+  /** Current scores keyed by URL */
+  scores: Record<string, number>;
+  /** Share of frecency in the ranking, from 0 (fuzzy score only) to 1 */
+  blend: number;
+}
+
+// =============================================================================
+// SLOT EDITOR TYPES
+// =============================================================================
+
+/**
+ * One line of the harpoon slot editor
+ */
+export interface SlotEdit {
+  /** Slot number the line was loaded from (absent for lines added in the editor) */
+  from?: number;
+  /** URL of the slot */
+  url: string;
+  /** Title of the slot */
+  title: string;
+}
+
+// =============================================================================
+// SLOT PICKER TYPES
+// =============================================================================
+
+/**
+ * A harpoon slot as the slot picker shows it
+ */
+export interface SlotPickerSlot {
+  /** Slot number (1-10) */
+  id: number;
+  /** Title of the harpooned tab (null if the slot is empty) */
+  title: string | null;
+  /** URL of the harpooned tab (null if the slot is empty) */
+  url: string | null;
+}
+
+/**
+ * Everything the in-page slot picker and leader-key overlays need to render
+ */
+export interface SlotPickerData {
+  /** Name of the active harpoon list */
+  listName: string;
+  /** All slots up to maxSlots, filled or not */
+  slots: SlotPickerSlot[];
 }
 
 // =============================================================================
@@ -188,13 +596,37 @@ export interface Settings {
 export type MessageType =
   | 'HARPOON_MARK'
   | 'HARPOON_JUMP'
+  | 'HARPOON_CYCLE'
+  | 'HARPOON_JUMP_LAST'
   | 'HARPOON_REMOVE'
   | 'HARPOON_GET_STATE'
+  | 'HARPOON_LIST_SWITCH'
+  | 'HARPOON_LIST_CREATE'
+  | 'HARPOON_PICKER_CHOOSE'
+  | 'HARPOON_COMMIT_EDITS'
+  | 'HARPOON_FOLLOW_REDIRECT'
+  | 'HARPOON_CLEAR_DEAD'
   | 'WORKSPACE_SWITCH'
   | 'WORKSPACE_CREATE'
   | 'WORKSPACE_DELETE'
+  | 'WORKSPACE_SET_HARPOON_LIST'
   | 'SETTINGS_GET'
-  | 'SETTINGS_UPDATE';
+  | 'SETTINGS_UPDATE'
+  | 'HISTORY_UNDO'
+  | 'HISTORY_REDO'
+  | 'TABS_GET_SNAPSHOT'
+  | 'TABS_GET_RECENT'
+  | 'FRECENCY_RESET'
+  | 'TABS_BULK_CLOSE'
+  | 'TABS_BULK_RELOAD'
+  | 'TABS_BULK_PIN'
+  | 'TABS_BULK_MUTE'
+  | 'TABS_BULK_DISCARD'
+  | 'TABS_BULK_MOVE'
+  | 'TABS_BULK_ASSIGN_WORKSPACE'
+  | 'TABS_BULK_GROUP'
+  | 'PAGES_BULK_BOOKMARK'
+  | 'PAGES_BULK_COPY_MARKDOWN';
 
 /**
  * Base message structure for chrome.runtime.sendMessage
@@ -242,3 +674,223 @@ export interface StorageSchema {
   workspaces: WorkspaceState;
   settings: Settings;
 }
+
+/**
+ * Data as it sits in storage (or in an export file), tagged with the
+ * schema version it was written with. Older data may be missing the tag.
+ */
+export interface VersionedStorageData extends Partial<StorageSchema> {
+  /** Schema version of the stored data (absent for pre-versioning installs) */
+  schemaVersion?: number;
+}
+
+// =============================================================================
+// IMPORT TYPES
+// =============================================================================
+
+/**
+ * How imported sections are combined with existing data
+ * - 'overwrite': the imported section replaces the current one
+ * - 'merge': imported entries are added on top of the current ones
+ */
+export type ImportMode = 'overwrite' | 'merge';
+
+/**
+ * Which sections to import and how
+ */
+export interface ImportOptions {
+  sections: StorageKey[];
+  mode: ImportMode;
+}
+
+/**
+ * A problem found while validating imported data
+ */
+export interface ValidationIssue {
+  /** Path to the offending field, e.g. "harpoon.lists[0].slots[2].url" */
+  path: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of validating untrusted import data
+ */
+export interface ImportValidationResult {
+  /** Sections that passed validation (invalid sections are left out) */
+  data: Partial<StorageSchema>;
+  /** Field-level problems; any section with an issue is excluded from data */
+  errors: ValidationIssue[];
+}
+
+/**
+ * A single change an import would make
+ */
+export interface ImportChange {
+  /** Human-readable location, e.g. "Slot 2" or "theme" */
+  path: string;
+  /** Short description of the current value (absent if added) */
+  before?: string;
+  /** Short description of the new value (absent if removed) */
+  after?: string;
+}
+
+// =============================================================================
+// HISTORY TYPES
+// =============================================================================
+
+/**
+ * Storage keys whose mutations can be undone
+ */
+export type JournaledKey = 'harpoon' | 'workspaces';
+
+/**
+ * One step into a stored value: an object key, an array index, or the item
+ * with a given ID in a list of `{ id }` objects (lists, workspaces).
+ * `index` is where that item sat, for putting it back if it was removed.
+ */
+export type HistoryPathSegment = string | number | { id: string; index: number };
+
+/**
+ * A single value an operation changed, inside the journaled key
+ * `before` is absent if the operation added the value, `after` if it
+ * removed it.
+ */
+export interface HistoryChange {
+  path: HistoryPathSegment[];
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * A single undoable operation in the journal
+ */
+export interface HistoryEntry {
+  /** Unique identifier */
+  id: string;
+  /** Human-readable description, e.g. "Clear harpoon" */
+  label: string;
+  /** Time of the operation in ms */
+  timestamp: number;
+  /** The storage key the operation changed */
+  key: JournaledKey;
+  /** The values the operation changed, in the order they were found */
+  changes: HistoryChange[];
+}
+
+/**
+ * Undo and redo stacks (most recent entry last)
+ */
+export interface HistoryState {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// =============================================================================
+// ENCRYPTED EXPORT TYPES
+// =============================================================================
+
+/**
+ * Passphrase-encrypted export file
+ * Everything except `check` and `data` is the plaintext header; it is bound
+ * to the ciphertext as additional authenticated data
+ */
+export interface EncryptedExport {
+  /** Marks the file as an encrypted HyperTabs export */
+  format: 'hypertabs-encrypted';
+  /** Envelope format version */
+  version: number;
+  /** Key derivation parameters */
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    /** Base64 salt */
+    salt: string;
+  };
+  /** Cipher parameters */
+  cipher: {
+    name: 'AES-GCM';
+    /** Base64 initialization vector */
+    iv: string;
+  };
+  /** Base64 passphrase verifier, to tell a wrong passphrase from corruption */
+  check: string;
+  /** Base64 ciphertext of the JSON export */
+  data: string;
+}
+
+// =============================================================================
+// SNAPSHOT TYPES
+// =============================================================================
+
+/**
+ * Why a snapshot was taken
+ */
+export type SnapshotReason =
+  | 'interval'
+  | 'manual'
+  | 'harpoon-clear'
+  | 'harpoon-list-delete'
+  | 'workspace-delete'
+  | 'import'
+  | 'restore'
+  | 'repair';
+
+/**
+ * A point-in-time copy of all extension data, kept for restore
+ */
+export interface Snapshot {
+  /** Unique identifier */
+  id: string;
+  /** Creation time in ms */
+  createdAt: number;
+  /** What triggered the snapshot */
+  reason: SnapshotReason;
+  /** Size of the serialized data in bytes */
+  size: number;
+  /** The data, as returned by getAll() */
+  data: VersionedStorageData;
+}
+
+/**
+ * A single migration step, upgrading stored data from one schema version
+ * to the next. Must be pure: no storage access, no mutation of its input.
+ */
+export type Migration = (data: VersionedStorageData) => VersionedStorageData;
+
+// =============================================================================
+// DIAGNOSTICS TYPES
+// =============================================================================
+
+/**
+ * Kinds of inconsistency the integrity checker detects
+ */
+export type IntegrityIssueCode =
+  | 'slot-id-mismatch'
+  | 'slot-beyond-max'
+  | 'slot-count-mismatch'
+  | 'missing-list'
+  | 'duplicate-list-id'
+  | 'invalid-active-list'
+  | 'duplicate-workspace-id'
+  | 'missing-default'
+  | 'duplicate-default'
+  | 'invalid-active-workspace'
+  | 'orphan-tab-mapping'
+  | 'stale-tab-mapping'
+  | 'tab-ids-mismatch'
+  | 'tab-url-mismatch'
+  | 'missing-workspace-list';
+
+/**
+ * A single inconsistency found in stored state
+ */
+export interface IntegrityIssue {
+  /** What kind of inconsistency this is */
+  code: IntegrityIssueCode;
+  /** Storage key the issue was found in */
+  section: 'harpoon' | 'workspaces';
+  /** Human-readable description */
+  message: string;
+}
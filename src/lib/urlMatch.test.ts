@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { findMatchIndex, matchesUrl, validateMatchPattern } from './urlMatch';
+
+describe('matchesUrl', () => {
+  it('only matches the same URL in exact mode', () => {
+    const rule = { url: 'https://example.com/docs?page=1#intro' };
+
+    expect(matchesUrl(rule, 'https://example.com/docs?page=1#intro')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docs?page=1')).toBe(false);
+  });
+
+  it('ignores the hash in ignore-hash mode', () => {
+    const rule = { url: 'https://example.com/docs?page=1#intro', matchMode: 'ignore-hash' as const };
+
+    expect(matchesUrl(rule, 'https://example.com/docs?page=1#usage')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docs?page=2#intro')).toBe(false);
+  });
+
+  it('ignores the query and hash in ignore-query mode', () => {
+    const rule = { url: 'https://example.com/docs?page=1', matchMode: 'ignore-query' as const };
+
+    expect(matchesUrl(rule, 'https://example.com/docs?page=2#usage')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docs/intro')).toBe(false);
+  });
+
+  it('matches the path and anything below it in path-prefix mode', () => {
+    const rule = { url: 'https://example.com/docs', matchMode: 'path-prefix' as const };
+
+    expect(matchesUrl(rule, 'https://example.com/docs')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docs/intro?x=1')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docs-old')).toBe(false);
+    expect(matchesUrl(rule, 'https://other.example/docs/intro')).toBe(false);
+  });
+
+  it('treats a prefix with a trailing slash like one without', () => {
+    const rule = { url: 'https://example.com/docs/', matchMode: 'path-prefix' as const };
+
+    expect(matchesUrl(rule, 'https://example.com/docs')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docs/intro')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/docsearch')).toBe(false);
+  });
+
+  it('matches any page of the same origin in origin mode', () => {
+    const rule = { url: 'https://example.com/docs', matchMode: 'origin' as const };
+
+    expect(matchesUrl(rule, 'https://example.com/')).toBe(true);
+    expect(matchesUrl(rule, 'http://example.com/docs')).toBe(false);
+    expect(matchesUrl(rule, 'https://example.com:8080/docs')).toBe(false);
+  });
+
+  it('tests the pattern in regex mode', () => {
+    const rule = {
+      url: 'https://example.com/issues/1',
+      matchMode: 'regex' as const,
+      matchPattern: '^https://example\\.com/issues/\\d+$',
+    };
+
+    expect(matchesUrl(rule, 'https://example.com/issues/42')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/issues/new')).toBe(false);
+  });
+
+  it('falls back to the exact URL for an invalid regex pattern', () => {
+    const rule = { url: 'https://example.com/issues/1', matchMode: 'regex' as const, matchPattern: '(' };
+
+    expect(matchesUrl(rule, 'https://example.com/issues/1')).toBe(true);
+    expect(matchesUrl(rule, 'https://example.com/issues/2')).toBe(false);
+    expect(validateMatchPattern('(')).toBe('Not a valid regular expression');
+  });
+});
+
+describe('findMatchIndex', () => {
+  it('prefers an item with the identical URL over an earlier rule match', () => {
+    const items = [
+      { url: 'https://example.com/', matchMode: 'origin' as const },
+      null,
+      { url: 'https://example.com/docs' },
+    ];
+
+    expect(findMatchIndex(items, 'https://example.com/docs')).toBe(2);
+    expect(findMatchIndex(items, 'https://example.com/blog')).toBe(0);
+    expect(findMatchIndex(items, 'https://other.example/')).toBe(-1);
+  });
+});
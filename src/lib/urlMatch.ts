@@ -0,0 +1,164 @@
+/**
+ * URL Matching - Which Tab Belongs to a Harpoon Slot
+ *
+ * A slot remembers the URL it was marked on, but the page it points at
+ * rarely keeps that exact URL: apps rewrite the query string, pages scroll
+ * to #anchors, users click around within a site. Each slot therefore has a
+ * match mode that decides which open URLs still count as "its" page.
+ *
+ * Everything here is pure, so the same rules apply in the service worker
+ * (jump, sync, context menus) and in the popup (Telescope's harpoon badge).
+ */
+
+import type { UrlMatchMode, UrlMatchRule } from './types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * All match modes with a short label, in the order they are offered
+ */
+export const URL_MATCH_MODES: { mode: UrlMatchMode; label: string }[] = [
+  { mode: 'exact', label: 'Exact URL' },
+  { mode: 'ignore-hash', label: 'Ignore #hash' },
+  { mode: 'ignore-query', label: 'Ignore ?query and #hash' },
+  { mode: 'path-prefix', label: 'Same path prefix' },
+  { mode: 'origin', label: 'Same site' },
+  { mode: 'regex', label: 'Regular expression' },
+];
+
+/**
+ * Gets the label of a rule's match mode
+ */
+export function getMatchModeLabel(rule: UrlMatchRule): string {
+  const mode = rule.matchMode ?? 'exact';
+  return URL_MATCH_MODES.find((entry) => entry.mode === mode)?.label ?? mode;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Parses a URL, or returns null if it isn't one
+ */
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compiled patterns, keyed by source - matching runs for every open tab
+ */
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compiles a pattern, or returns null if it isn't a valid regular expression
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    let compiled: RegExp | null;
+    try {
+      compiled = new RegExp(pattern);
+    } catch {
+      compiled = null;
+    }
+    patternCache.set(pattern, compiled);
+  }
+  return patternCache.get(pattern)!;
+}
+
+/**
+ * Whether `path` is `prefix` or lies below it
+ * "/docs" covers "/docs" and "/docs/intro" but not "/docs-old".
+ */
+function isPathWithin(path: string, prefix: string): boolean {
+  if (prefix === '' || prefix === '/') return true;
+  const base = prefix.endsWith('/') ? prefix.slice(0, -1) : prefix;
+  return path === base || path.startsWith(`${base}/`);
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Checks a regex pattern for use in 'regex' mode
+ *
+ * @param pattern - The pattern source
+ * @returns An error message, or null if the pattern is usable
+ */
+export function validateMatchPattern(pattern: string): string | null {
+  if (pattern.trim() === '') return 'Pattern is empty';
+  return compilePattern(pattern) ? null : 'Not a valid regular expression';
+}
+
+/**
+ * Builds a pattern that matches exactly one URL, as a starting point for
+ * editing a 'regex' rule
+ *
+ * @param url - The URL to match
+ */
+export function urlToPattern(url: string): string {
+  return `^${url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`;
+}
+
+/**
+ * Whether a URL counts as the page a rule was made for
+ * A 'regex' rule with a missing or invalid pattern falls back to 'exact'.
+ *
+ * @param rule - The slot (or any URL plus match mode)
+ * @param url - The URL to test, e.g. an open tab's URL
+ */
+export function matchesUrl(rule: UrlMatchRule, url: string): boolean {
+  if (url === rule.url) return true;
+
+  const mode = rule.matchMode ?? 'exact';
+  if (mode === 'exact') return false;
+
+  if (mode === 'regex') {
+    const pattern = rule.matchPattern ? compilePattern(rule.matchPattern) : null;
+    return pattern ? pattern.test(url) : false;
+  }
+
+  const target = parseUrl(rule.url);
+  const candidate = parseUrl(url);
+  if (!target || !candidate || target.origin !== candidate.origin) return false;
+
+  switch (mode) {
+    case 'ignore-hash':
+      return target.pathname === candidate.pathname && target.search === candidate.search;
+    case 'ignore-query':
+      return target.pathname === candidate.pathname;
+    case 'path-prefix':
+      return isPathWithin(candidate.pathname, target.pathname);
+    case 'origin':
+      return true;
+  }
+}
+
+/**
+ * Finds the item whose rule matches a URL best
+ * An item whose URL is identical wins over one that only matches by rule;
+ * otherwise the first match wins.
+ *
+ * @param items - Slots (or other rules) to search, may contain nulls
+ * @param url - The URL to look up
+ * @returns Index of the matching item, or -1
+ */
+export function findMatchIndex(items: readonly (UrlMatchRule | null | undefined)[], url: string): number {
+  const exact = items.findIndex((item) => item?.url === url);
+  if (exact !== -1) return exact;
+  return items.findIndex((item) => !!item && matchesUrl(item, url));
+}
+
+/**
+ * Stable key for a rule, for de-duplicating lookups
+ */
+export function matchRuleKey(rule: UrlMatchRule): string {
+  return `${rule.matchMode ?? 'exact'}\u0000${rule.matchPattern ?? ''}\u0000${rule.url}`;
+}
@@ -8,12 +8,16 @@
  * - Create named workspaces for different contexts (work, personal, project)
  * - Assign tabs to workspaces
  * - Switch workspaces to show/hide groups of tabs
+ * - Give a workspace its own harpoon list, activated when switching to it
  * - Save and restore workspace layouts
  */
 
 import type { Workspace, WorkspaceState } from './types';
 import { get, update } from './storage';
-import { getAllTabs, groupTabs, setGroupCollapsed, ungroupTabs } from './tabs';
+import { takeSnapshot } from './snapshots';
+import { journaledUpdate } from './history';
+import { getAllTabs, getTabById, groupTabs, setGroupCollapsed, ungroupTabs } from './tabs';
+import { activateWorkspaceList } from './harpoon';
 
 // =============================================================================
 // STATE MANAGEMENT
@@ -71,12 +75,13 @@ export async function createWorkspace(
  * 
  * @param workspaceId - ID of workspace to rename
  * @param newName - New name for the workspace
+ * @returns The workspace state after the write
  */
 export async function renameWorkspace(
   workspaceId: string,
   newName: string
-): Promise<void> {
-  await update('workspaces', (state) => ({
+): Promise<WorkspaceState> {
+  const state = await journaledUpdate(`Rename workspace to "${newName}"`, 'workspaces', (state) => ({
     ...state,
     workspaces: state.workspaces.map((ws) =>
       ws.id === workspaceId ? { ...ws, name: newName } : ws
@@ -84,16 +89,21 @@ export async function renameWorkspace(
   }));
 
   console.log(`Workspaces: Renamed workspace to "${newName}"`);
+  return state;
 }
 
 /**
  * Deletes a workspace
- * Tabs in the workspace are moved to the default workspace
+ * Tabs in the workspace are moved to the default workspace.
+ * A snapshot is taken first so the workspace can be restored.
  * 
  * @param workspaceId - ID of workspace to delete
+ * @returns The workspace state after the write
  */
-export async function deleteWorkspace(workspaceId: string): Promise<void> {
-  await update('workspaces', (state) => {
+export async function deleteWorkspace(workspaceId: string): Promise<WorkspaceState> {
+  await takeSnapshot('workspace-delete');
+
+  const updatedState = await journaledUpdate('Delete workspace', 'workspaces', (state) => {
     // Find default workspace
     const defaultWorkspace = state.workspaces.find((ws) => ws.isDefault);
     const workspaceToDelete = state.workspaces.find((ws) => ws.id === workspaceId);
@@ -129,6 +139,36 @@ export async function deleteWorkspace(workspaceId: string): Promise<void> {
   });
 
   console.log(`Workspaces: Deleted workspace ${workspaceId}`);
+  return updatedState;
+}
+
+/**
+ * Sets the harpoon list a workspace owns
+ * If the workspace is active, its list is activated right away.
+ * 
+ * @param workspaceId - ID of the workspace
+ * @param listId - ID of the harpoon list, or null to use the global list
+ * @returns The workspace state after the write
+ */
+export async function setWorkspaceHarpoonList(
+  workspaceId: string,
+  listId: string | null
+): Promise<WorkspaceState> {
+  const state = await journaledUpdate('Change workspace harpoon list', 'workspaces', (state) => ({
+    ...state,
+    workspaces: state.workspaces.map((ws) => {
+      if (ws.id !== workspaceId) return ws;
+      const { harpoonListId: _previous, ...rest } = ws;
+      return listId === null ? rest : { ...rest, harpoonListId: listId };
+    }),
+  }));
+
+  if (state.activeWorkspaceId === workspaceId) {
+    await activateWorkspaceList(listId ?? undefined);
+  }
+
+  console.log(`Workspaces: Workspace ${workspaceId} now uses ${listId ? `harpoon list ${listId}` : 'the global harpoon list'}`);
+  return state;
 }
 
 /**
@@ -148,70 +188,116 @@ export async function getWorkspace(
 // TAB ASSIGNMENT
 // =============================================================================
 
+/**
+ * Moves a tab into a workspace, taking it out of any other
+ * 
+ * @param state - Current workspace state
+ * @param tabId - Tab to move
+ * @param tabUrl - The tab's URL, kept so the workspace can be restored
+ * @param workspaceId - Workspace to move it into
+ * @returns The updated state
+ */
+function withTabAssigned(
+  state: WorkspaceState,
+  tabId: number,
+  tabUrl: string,
+  workspaceId: string
+): WorkspaceState {
+  // Update the mapping
+  const updatedTabToWorkspace = {
+    ...state.tabToWorkspace,
+    [tabId]: workspaceId,
+  };
+
+  // Update the workspace's tab lists
+  const updatedWorkspaces = state.workspaces.map((ws) => {
+    if (ws.id === workspaceId) {
+      // Add to target workspace
+      const newTabIds = ws.tabIds.includes(tabId)
+        ? ws.tabIds
+        : [...ws.tabIds, tabId];
+      const newTabUrls = ws.tabUrls.includes(tabUrl)
+        ? ws.tabUrls
+        : [...ws.tabUrls, tabUrl];
+      return { ...ws, tabIds: newTabIds, tabUrls: newTabUrls };
+    }
+    // Remove from other workspaces
+    return {
+      ...ws,
+      tabIds: ws.tabIds.filter((id) => id !== tabId),
+      tabUrls: ws.tabUrls.filter((url) => url !== tabUrl),
+    };
+  });
+
+  return {
+    ...state,
+    workspaces: updatedWorkspaces,
+    tabToWorkspace: updatedTabToWorkspace,
+  };
+}
+
 /**
  * Assigns a tab to a workspace
  * 
  * @param tabId - Tab ID to assign
  * @param workspaceId - Workspace ID to assign to
+ * @returns The workspace state after the write (unchanged if the tab is gone)
  */
 export async function assignTabToWorkspace(
   tabId: number,
   workspaceId: string
-): Promise<void> {
+): Promise<WorkspaceState> {
   // Get the tab's URL for persistence
-  let tabUrl = '';
-  try {
-    const tab = await chrome.tabs.get(tabId);
-    tabUrl = tab.url || '';
-  } catch {
+  const tab = await getTabById(tabId);
+  if (!tab) {
     console.warn(`Workspaces: Tab ${tabId} no longer exists`);
-    return;
+    return await getWorkspaceState();
   }
+  const tabUrl = tab.url || '';
 
-  await update('workspaces', (state) => {
-    // Update the mapping
-    const updatedTabToWorkspace = {
-      ...state.tabToWorkspace,
-      [tabId]: workspaceId,
-    };
+  const updatedState = await journaledUpdate('Assign tab to workspace', 'workspaces', (state) =>
+    withTabAssigned(state, tabId, tabUrl, workspaceId)
+  );
 
-    // Update the workspace's tab lists
-    const updatedWorkspaces = state.workspaces.map((ws) => {
-      if (ws.id === workspaceId) {
-        // Add to target workspace
-        const newTabIds = ws.tabIds.includes(tabId)
-          ? ws.tabIds
-          : [...ws.tabIds, tabId];
-        const newTabUrls = ws.tabUrls.includes(tabUrl)
-          ? ws.tabUrls
-          : [...ws.tabUrls, tabUrl];
-        return { ...ws, tabIds: newTabIds, tabUrls: newTabUrls };
-      }
-      // Remove from other workspaces
-      return {
-        ...ws,
-        tabIds: ws.tabIds.filter((id) => id !== tabId),
-        tabUrls: ws.tabUrls.filter((url) => url !== tabUrl),
-      };
-    });
+  console.log(`Workspaces: Assigned tab ${tabId} to workspace ${workspaceId}`);
+  return updatedState;
+}
 
-    return {
-      ...state,
-      workspaces: updatedWorkspaces,
-      tabToWorkspace: updatedTabToWorkspace,
-    };
-  });
+/**
+ * Assigns several tabs to a workspace in one update, so it is a single
+ * undo step
+ * 
+ * @param tabIds - Tab IDs to assign (tabs that no longer exist are skipped)
+ * @param workspaceId - Workspace ID to assign to
+ * @returns The workspace state after the write
+ */
+export async function assignTabsToWorkspace(
+  tabIds: number[],
+  workspaceId: string
+): Promise<WorkspaceState> {
+  const tabs = (await Promise.all(tabIds.map(getTabById)))
+    .filter((tab): tab is chrome.tabs.Tab => tab?.id !== undefined);
+  if (tabs.length === 0) {
+    return await getWorkspaceState();
+  }
 
-  console.log(`Workspaces: Assigned tab ${tabId} to workspace ${workspaceId}`);
+  const label = tabs.length === 1 ? 'Assign tab to workspace' : `Assign ${tabs.length} tabs to workspace`;
+  const updatedState = await journaledUpdate(label, 'workspaces', (state) =>
+    tabs.reduce((next, tab) => withTabAssigned(next, tab.id!, tab.url || '', workspaceId), state)
+  );
+
+  console.log(`Workspaces: Assigned ${tabs.length} tabs to workspace ${workspaceId}`);
+  return updatedState;
 }
 
 /**
  * Removes a tab from its workspace
  * 
  * @param tabId - Tab ID to remove
+ * @returns The workspace state after the write
  */
-export async function removeTabFromWorkspace(tabId: number): Promise<void> {
-  await update('workspaces', (state) => {
+export async function removeTabFromWorkspace(tabId: number): Promise<WorkspaceState> {
+  const updatedState = await update('workspaces', (state) => {
     const currentWorkspaceId = state.tabToWorkspace[tabId];
     if (!currentWorkspaceId) return state;
 
@@ -235,6 +321,7 @@ export async function removeTabFromWorkspace(tabId: number): Promise<void> {
   });
 
   console.log(`Workspaces: Removed tab ${tabId} from workspace`);
+  return updatedState;
 }
 
 // =============================================================================
@@ -266,6 +353,7 @@ export async function switchWorkspace(workspaceId: string | null): Promise<void>
     }
 
     await update('workspaces', (s) => ({ ...s, activeWorkspaceId: null }));
+    await activateWorkspaceList(undefined);
     console.log('Workspaces: Switched to all tabs view');
     return;
   }
@@ -315,6 +403,7 @@ export async function switchWorkspace(workspaceId: string | null): Promise<void>
 
   // Update active workspace
   await update('workspaces', (s) => ({ ...s, activeWorkspaceId: workspaceId }));
+  await activateWorkspaceList(targetWorkspace.harpoonListId);
   console.log(`Workspaces: Switched to workspace "${targetWorkspace.name}"`);
 }
 
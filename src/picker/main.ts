@@ -0,0 +1,15 @@
+/**
+ * Slot Picker Window Entry Point
+ * 
+ * Mounts the slot picker shown by the harpoon-mark command on pages the
+ * in-page overlay can't be injected into.
+ */
+
+import Picker from './Picker.svelte';
+
+// Mount the Svelte app to the #app element
+const app = new Picker({
+  target: document.getElementById('app')!,
+});
+
+export default app;
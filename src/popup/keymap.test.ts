@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getPopupKeyAction, type PopupKey } from './keymap';
+
+const key = (name: string, modifiers: Partial<PopupKey> = {}): PopupKey => ({
+  key: name,
+  ctrlKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+const vim = { vimMode: true, query: '' };
+
+describe('getPopupKeyAction', () => {
+  it('undoes with u in vim mode on an empty query', () => {
+    expect(getPopupKeyAction(key('u'), vim)).toBe('undo');
+    expect(getPopupKeyAction(key('u'), { vimMode: false, query: '' })).toBeNull();
+  });
+
+  it('leaves u typed within a query to the input', () => {
+    expect(getPopupKeyAction(key('u'), { vimMode: true, query: 'yo' })).toBeNull();
+  });
+
+  it('undoes and redoes with Ctrl+Z and Ctrl+Shift+Z on an empty query', () => {
+    expect(getPopupKeyAction(key('z', { ctrlKey: true }), vim)).toBe('undo');
+    expect(getPopupKeyAction(key('Z', { ctrlKey: true, shiftKey: true }), vim)).toBe('redo');
+  });
+
+  it('leaves Ctrl+Z to the input while there is text to undo', () => {
+    expect(getPopupKeyAction(key('z', { ctrlKey: true }), { vimMode: false, query: 'react' })).toBeNull();
+  });
+
+  it('redoes with Ctrl+R in vim mode only', () => {
+    expect(getPopupKeyAction(key('r', { ctrlKey: true }), vim)).toBe('redo');
+    expect(getPopupKeyAction(key('r', { ctrlKey: true }), { vimMode: false, query: '' })).toBeNull();
+  });
+
+  it('moves with j and k in vim mode only', () => {
+    expect(getPopupKeyAction(key('j'), vim)).toBe('next');
+    expect(getPopupKeyAction(key('k'), { vimMode: false, query: '' })).toBeNull();
+  });
+
+  it('lets a space typed into the query in vim mode reach the input', () => {
+    expect(getPopupKeyAction(key(' '), { vimMode: true, query: 'is:tab' })).toBeNull();
+    expect(getPopupKeyAction(key(' '), vim)).toBeNull();
+  });
+
+  it('picks in place with Ctrl+Space', () => {
+    expect(getPopupKeyAction(key(' ', { ctrlKey: true }), vim)).toBe('pick');
+    expect(getPopupKeyAction(key(' ', { ctrlKey: true }), { vimMode: false, query: 'foo' })).toBe('pick');
+  });
+
+  it('picks and moves with Tab and Shift+Tab', () => {
+    expect(getPopupKeyAction(key('Tab'), vim)).toBe('pickAndNext');
+    expect(getPopupKeyAction(key('Tab', { shiftKey: true }), vim)).toBe('pickAndPrevious');
+  });
+});
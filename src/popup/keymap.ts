@@ -0,0 +1,88 @@
+/**
+ * Popup Keymap
+ *
+ * Decides what a key pressed in the Telescope input does. Keys that map to
+ * no action are left to the input, so they type into the query - anything
+ * that can appear in a typed query must stay unbound there.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Things a key can do in the popup
+ */
+export type PopupKeyAction =
+  | 'next'
+  | 'previous'
+  | 'undo'
+  | 'redo'
+  | 'pickAndNext'
+  | 'pickAndPrevious'
+  | 'pick'
+  | 'pickAll'
+  | 'select'
+  | 'escape';
+
+/**
+ * The parts of a keyboard event the keymap looks at
+ */
+export type PopupKey = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'shiftKey' | 'altKey'>;
+
+/**
+ * State of the popup that changes what keys do
+ */
+export interface PopupKeyContext {
+  vimMode: boolean;
+  /** Current query, as typed */
+  query: string;
+}
+
+// =============================================================================
+// KEYMAP
+// =============================================================================
+
+/**
+ * Gets the action for a key press
+ *
+ * @param key - The key event
+ * @param context - Popup state
+ * @returns The action, or null to let the key reach the input
+ */
+export function getPopupKeyAction(key: PopupKey, context: PopupKeyContext): PopupKeyAction | null {
+  switch (key.key) {
+    case 'ArrowDown':
+      return 'next';
+    case 'ArrowUp':
+      return 'previous';
+    case 'j':
+      return context.vimMode ? 'next' : null;
+    case 'k':
+      return context.vimMode ? 'previous' : null;
+    case 'u':
+      // Only as the first key, so u typed within a query stays text
+      return context.vimMode && !key.ctrlKey && context.query === '' ? 'undo' : null;
+    case 'z':
+    case 'Z':
+      // With text in the query, Ctrl+Z undoes typing as usual
+      if (!key.ctrlKey || context.query !== '') return null;
+      return key.shiftKey ? 'redo' : 'undo';
+    case 'r':
+      return context.vimMode && key.ctrlKey ? 'redo' : null;
+    case 'Tab':
+      // Pick the result and move on (Shift: move back), like fzf
+      return key.shiftKey ? 'pickAndPrevious' : 'pickAndNext';
+    case ' ':
+      // Plain space separates words in the query, in vim mode too
+      return key.ctrlKey ? 'pick' : null;
+    case 'a':
+      return key.altKey ? 'pickAll' : null;
+    case 'Enter':
+      return 'select';
+    case 'Escape':
+      return 'escape';
+    default:
+      return null;
+  }
+}
@@ -19,6 +19,12 @@ export default defineConfig({
     target: 'esnext',
     // Output directory for the built extension
     outDir: 'dist',
+    rollupOptions: {
+      // Pages the manifest doesn't reference
+      input: {
+        picker: 'src/picker/picker.html',
+      },
+    },
   },
   // Resolve aliases for cleaner imports
   resolve: {